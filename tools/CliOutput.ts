@@ -0,0 +1,89 @@
+/**
+ * PAI CLI Output
+ *
+ * Shared output handling for the memory tools: --json / --ndjson structured
+ * output and ANSI colors that switch themselves off when they would only get
+ * in the way.
+ *
+ * Every structured document starts with a schema name and version (see
+ * OUTPUT_SCHEMAS and docs/output-schemas.md). With --json a command prints
+ * one pretty-printed document; with --ndjson it prints one compact JSON
+ * object per line, so list outputs can be streamed into jq or a script.
+ */
+
+export type OutputFormat = "text" | "json" | "ndjson";
+
+// Schema versions of every structured output. Bump a version when a field is
+// renamed, removed or changes meaning; adding a field is not a breaking change.
+export const OUTPUT_SCHEMAS = {
+  "pai.memory-search": 1,
+  "pai.memory-stats": 1,
+  "pai.file-search": 2,
+  "pai.session-context": 1,
+  "pai.session-delta": 1,
+  "pai.current-work": 1,
+  "pai.weekly-synthesis": 1,
+} as const;
+
+export type OutputSchema = keyof typeof OUTPUT_SCHEMAS;
+
+const FORMAT_FLAGS: Record<string, OutputFormat> = {
+  "--json": "json",
+  "--ndjson": "ndjson",
+};
+
+// Output format requested on the command line; the last flag wins
+export function parseOutputFormat(args: string[]): OutputFormat {
+  let format: OutputFormat = "text";
+  for (const arg of args) {
+    if (FORMAT_FLAGS[arg]) format = FORMAT_FLAGS[arg];
+  }
+  return format;
+}
+
+// Arguments with --json / --ndjson removed
+export function withoutOutputFlags(args: string[]): string[] {
+  return args.filter((arg) => !FORMAT_FLAGS[arg]);
+}
+
+// Colors are used only on a terminal, never in structured output, and never
+// when NO_COLOR is set to a non-empty value (https://no-color.org)
+export function colorEnabled(): boolean {
+  if (process.env.NO_COLOR) return false;
+  if (parseOutputFormat(process.argv.slice(2)) !== "text") return false;
+  return Boolean(process.stdout.isTTY);
+}
+
+// A tool's ANSI palette, or the same keys mapped to "" when colors are off
+export function ansi<T extends Record<string, string>>(codes: T): T {
+  if (colorEnabled()) return codes;
+  return Object.fromEntries(Object.keys(codes).map((key) => [key, ""])) as T;
+}
+
+function envelope(schema: OutputSchema) {
+  return { schema, version: OUTPUT_SCHEMAS[schema] };
+}
+
+// Print a single document (stats, session context, ...)
+export function writeDocument(format: OutputFormat, schema: OutputSchema, body: object): void {
+  const document = { ...envelope(schema), generatedAt: new Date().toISOString(), ...body };
+  console.log(format === "ndjson" ? JSON.stringify(document) : JSON.stringify(document, null, 2));
+}
+
+// Print a list of records. --json wraps them in one document under
+// `results` next to `meta`; --ndjson prints one record per line, each
+// carrying the schema envelope.
+export function writeRecords(
+  format: OutputFormat,
+  schema: OutputSchema,
+  meta: object,
+  records: object[]
+): void {
+  if (format === "ndjson") {
+    for (const record of records) {
+      console.log(JSON.stringify({ ...envelope(schema), ...record }));
+    }
+    return;
+  }
+  writeDocument(format, schema, { ...meta, results: records });
+}
@@ -18,11 +18,11 @@
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { parseOutputFormat, writeDocument } from './CliOutput';
+import { STATE_DIR, requireActiveProfile, withoutProfileFlag } from './MemoryPaths';
 import type { CurrentWorkState, OpenItem, LastSession } from './types/memory';
 
-// Environment variable from PAI setup
-const PAI_HOME = process.env.PAI_HOME || `${process.env.HOME}/.claude`;
-const STATE_DIR = join(PAI_HOME, 'MEMORY', 'STATE');
+// STATE directory of the active profile (see MemoryPaths.ts)
 const CURRENT_WORK_FILE = join(STATE_DIR, 'session-continuity.json');
 
 /**
@@ -164,14 +164,22 @@ function getDefaultState(): CurrentWorkState {
  * Allows running this script directly from command line
  */
 if (import.meta.main) {
-  const args = process.argv.slice(2);
+  const args = withoutProfileFlag(process.argv.slice(2));
   const command = args[0];
 
+  if (['show', 'add-item', 'add-project', 'update-session'].includes(command)) requireActiveProfile();
+
   switch (command) {
-    case 'show':
-      // Show current state
-      console.log(JSON.stringify(getCurrentWorkState(), null, 2));
+    case 'show': {
+      // Show current state; --json/--ndjson wrap it in the versioned schema
+      const format = parseOutputFormat(args);
+      if (format === 'text') {
+        console.log(JSON.stringify(getCurrentWorkState(), null, 2));
+      } else {
+        writeDocument(format, 'pai.current-work', getCurrentWorkState());
+      }
       break;
+    }
 
     case 'add-item':
       // Add open item: bun CurrentWorkManager.ts add-item "Do the thing"
@@ -213,13 +221,15 @@ USAGE:
   bun CurrentWorkManager.ts <command> [args]
 
 COMMANDS:
-  show                          Show current work state
+  show [--json|--ndjson]        Show current work state (--json adds the
+                                schema envelope, see docs/output-schemas.md)
   add-item <desc> [priority]    Add open item (priority: high|medium|low)
   add-project <name>            Add active project
   update-session <summary> <next-steps...>  Update last session
 
 EXAMPLES:
   bun CurrentWorkManager.ts show
+  bun CurrentWorkManager.ts show --ndjson
   bun CurrentWorkManager.ts add-item "Fix memory bug" high
   bun CurrentWorkManager.ts add-project "Project-A"
   bun CurrentWorkManager.ts update-session "Built phase 2" "Test integration" "Document"
@@ -0,0 +1,188 @@
+/**
+ * PAI Learning Parser
+ *
+ * One parser for learning documents, shared by MemoryDatabase.ts,
+ * MemorySearch.ts, WeeklySynthesis.ts and SessionContextLoader.ts.
+ *
+ * YAML front-matter is read first:
+ *
+ *   ---
+ *   title: Built REST API endpoint
+ *   date: 2026-02-01
+ *   category: ALGORITHM
+ *   rating: 8
+ *   tags: [api, security]
+ *   ---
+ *
+ * Fields missing from the front-matter fall back to the markdown conventions
+ * of examples/learning-sample.md: the first "# " heading, **Date:**,
+ * **Category:** and **Rating:** 8/10 lines, and the hashtags under "## Tags".
+ * Only the flat subset of YAML used by front-matter is supported (scalars,
+ * inline lists and "- item" lists); anything else is reported as a warning.
+ */
+
+import * as path from "path";
+import type { LearningDocument } from "./types/memory";
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const TITLE = /^#\s+(.+?)\s*#*\s*$/m;
+const FIELD = (name: string) => new RegExp(`^\\s*(?:\\*\\*)?(?:${name})(?:\\*\\*)?:(?:\\*\\*)?\\s*(.+?)\\s*$`, "im");
+const RATING_VALUE = /^(\d+(?:\.\d+)?)\s*(?:\/\s*10)?\b/;
+const DATE_VALUE = /^(\d{4}-\d{2}-\d{2})\b/;
+const HASHTAG = /(?<![\w&/#])#([a-zA-Z][\w-]*)/g;
+
+function unquote(value: string): string {
+  if (/^(["']).*\1$/.test(value)) return value.slice(1, -1);
+  return value;
+}
+
+function parseScalar(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  if (/^\[.*\]$/.test(trimmed)) {
+    return trimmed
+      .slice(1, -1)
+      .split(",")
+      .map((item) => unquote(item.trim()))
+      .filter(Boolean);
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === "true" || trimmed === "false") return trimmed === "true";
+  return unquote(trimmed);
+}
+
+// Parse the flat YAML subset used in front-matter
+function parseFrontMatter(yaml: string, warnings: string[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  yaml.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === "" || line.trim().startsWith("#")) return;
+
+    const item = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as unknown[]).push(parseScalar(item[1]));
+      return;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) {
+      warnings.push(`front-matter line ${i + 2}: cannot parse "${line.trim()}"`);
+      return;
+    }
+
+    const key = pair[1].toLowerCase();
+    if (pair[2].trim() === "") {
+      fields[key] = [];
+      listKey = key;
+    } else {
+      fields[key] = parseScalar(pair[2]);
+      listKey = null;
+    }
+  });
+
+  return fields;
+}
+
+function parseRating(value: unknown, source: string, warnings: string[]): number | null {
+  const match = String(value).trim().match(RATING_VALUE);
+  const rating = match ? parseFloat(match[1]) : NaN;
+  if (isNaN(rating) || rating < 1 || rating > 10) {
+    warnings.push(`${source}: rating "${value}" is not a number from 1 to 10`);
+    return null;
+  }
+  return Math.round(rating);
+}
+
+function parseDate(value: unknown, source: string, warnings: string[]): string | null {
+  const match = String(value).trim().match(DATE_VALUE);
+  if (!match || isNaN(new Date(match[1]).getTime())) {
+    warnings.push(`${source}: date "${value}" is not YYYY-MM-DD`);
+    return null;
+  }
+  return match[1];
+}
+
+function parseTags(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(/[\s,]+/);
+  return items.map((tag) => tag.trim().replace(/^#/, "")).filter(Boolean);
+}
+
+// Body of the "## Tags" section, if any
+function tagsSection(body: string): string | null {
+  const match = body.match(/^##\s+Tags\s*$([\s\S]*?)(?=^#{1,2}\s|^---\s*$|(?![\s\S]))/m);
+  return match ? match[1] : null;
+}
+
+export function parseLearning(content: string, filePath?: string): LearningDocument {
+  const warnings: string[] = [];
+  let frontMatter: Record<string, unknown> = {};
+  let body = content;
+
+  const fm = content.match(FRONT_MATTER);
+  if (fm) {
+    frontMatter = parseFrontMatter(fm[1], warnings);
+    body = content.slice(fm[0].length);
+  } else if (/^---\r?\n/.test(content) && /^\w+\s*:/m.test(content.split(/\r?\n/)[1] || "")) {
+    warnings.push("front-matter is not closed with ---");
+  }
+
+  // Title
+  let title: string | null = null;
+  if (typeof frontMatter.title === "string" && frontMatter.title) {
+    title = frontMatter.title;
+  } else {
+    title = body.match(TITLE)?.[1] ?? null;
+    if (!title) warnings.push("no title (front-matter title or # heading)");
+  }
+
+  // Rating
+  let rating: number | null = null;
+  if (frontMatter.rating !== undefined && frontMatter.rating !== null) {
+    rating = parseRating(frontMatter.rating, "front-matter", warnings);
+  } else {
+    const line = body.match(FIELD("Rating|RATE"));
+    if (line) rating = parseRating(line[1], "**Rating:**", warnings);
+  }
+
+  // Date
+  let date: string | null = null;
+  if (frontMatter.date !== undefined && frontMatter.date !== null) {
+    date = parseDate(frontMatter.date, "front-matter", warnings);
+  } else {
+    const line = body.match(FIELD("Date"));
+    if (line) date = parseDate(line[1], "**Date:**", warnings);
+  }
+  if (!date && filePath) {
+    date = path.basename(filePath).match(DATE_VALUE)?.[1] ?? null;
+  }
+
+  // Category
+  let category: string | null = null;
+  if (typeof frontMatter.category === "string" && frontMatter.category) {
+    category = frontMatter.category;
+  } else {
+    category = body.match(FIELD("Category"))?.[1] ?? null;
+  }
+
+  // Tags: front-matter, else the ## Tags section, else inline hashtags
+  let tags: string[];
+  if (frontMatter.tags !== undefined && frontMatter.tags !== null) {
+    tags = parseTags(frontMatter.tags);
+  } else {
+    const section = tagsSection(body);
+    const text = section ?? body.replace(/^\s*(```|~~~)[\s\S]*?^\s*\1/gm, "");
+    tags = [...text.matchAll(HASHTAG)].map((m) => m[1]);
+  }
+
+  return {
+    title,
+    date,
+    category,
+    rating,
+    tags: [...new Set(tags)],
+    frontMatter,
+    body,
+    warnings,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * PAI Markdown Chunker
+ *
+ * Splits a markdown document into heading-based sections so MemoryDatabase.ts
+ * can index whole documents and point search hits at the exact section and
+ * line range. Headings inside fenced code blocks are ignored. Sections longer
+ * than maxChars are split further at blank lines.
+ */
+
+export interface MarkdownChunk {
+  ordinal: number; // Position within the document, from 0
+  headingPath: string; // e.g. "Built REST API > Challenges Encountered"
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  content: string;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+interface Section {
+  headingPath: string;
+  startLine: number;
+  lines: string[];
+}
+
+// Split an oversized section at blank lines, keeping line numbers accurate
+function splitSection(section: Section, maxChars: number): Section[] {
+  const parts: Section[] = [];
+  let current: Section = { ...section, lines: [] };
+  let size = 0;
+
+  section.lines.forEach((line, i) => {
+    const lineNumber = section.startLine + i;
+    if (size > maxChars && line.trim() === "" && current.lines.length > 0) {
+      parts.push(current);
+      current = { headingPath: section.headingPath, startLine: lineNumber + 1, lines: [] };
+      size = 0;
+      return;
+    }
+    current.lines.push(line);
+    size += line.length + 1;
+  });
+
+  if (current.lines.length > 0) parts.push(current);
+  return parts;
+}
+
+export function chunkMarkdown(content: string, maxChars: number = 2000): MarkdownChunk[] {
+  const lines = content.split("\n");
+  const headings: string[] = []; // Current heading at each level
+  const sections: Section[] = [];
+  let current: Section = { headingPath: "", startLine: 1, lines: [] };
+  let inFence = false;
+
+  lines.forEach((line, i) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(HEADING);
+
+    if (heading) {
+      if (current.lines.some((l) => l.trim() !== "")) sections.push(current);
+
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2];
+      current = {
+        headingPath: headings.filter(Boolean).join(" > "),
+        startLine: i + 1,
+        lines: [],
+      };
+    }
+    current.lines.push(line);
+  });
+  if (current.lines.some((l) => l.trim() !== "")) sections.push(current);
+
+  const chunks: MarkdownChunk[] = [];
+  for (const section of sections) {
+    for (const part of splitSection(section, maxChars)) {
+      // Trim trailing blank lines from the range
+      let lineCount = part.lines.length;
+      while (lineCount > 1 && part.lines[lineCount - 1].trim() === "") lineCount--;
+
+      chunks.push({
+        ordinal: chunks.length,
+        headingPath: part.headingPath,
+        startLine: part.startLine,
+        endLine: part.startLine + lineCount - 1,
+        content: part.lines.slice(0, lineCount).join("\n"),
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for archive and restore (MemoryArchive.ts through MemoryDatabase.ts)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import { createTestHome } from "./TestHome";
+import type { TestHome } from "./TestHome";
+
+const ID = "algo_2025-03_2025-03-01-100000_LEARNING_cache";
+const FILE = ".claude/MEMORY/LEARNING/ALGORITHM/2025-03/2025-03-01-100000_LEARNING_cache.md";
+const CONTENT = "# Cache warmup\n\n**Rating:** 3/10\n\nWarm the page cache before the benchmark.\n";
+
+let home: TestHome;
+
+function database(...args: string[]): string {
+  const result = home.run("MemoryDatabase.ts", args);
+  expect(result.code).toBe(0);
+  return result.stdout;
+}
+
+beforeEach(() => {
+  home = createTestHome();
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("archive and restore", () => {
+  test("keep the content and mtime of a memory", () => {
+    const filePath = home.write(FILE, CONTENT, 500);
+    const mtime = Math.floor(fs.statSync(filePath).mtimeMs);
+    database("sync");
+
+    const policy = ["--older-than", "30", "--max-strength", "1", "--max-importance", "5", "--max-stability", "5"];
+    expect(database("archive", ...policy)).toContain("Archived 1 memories");
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.existsSync(home.path(".claude/MEMORY/ARCHIVE/2025-03.jsonl.gz"))).toBe(true);
+
+    // Still searchable on request, and a sync keeps it archived
+    database("sync");
+    const archived = JSON.parse(home.run("MemorySearch.ts", ["page cache", "--include-archived", "--json"]).stdout);
+    expect(archived.results.map((r: { file: string }) => r.file)).toEqual([
+      "ARCHIVE/2025-03:LEARNING/ALGORITHM/2025-03/2025-03-01-100000_LEARNING_cache.md",
+    ]);
+
+    expect(database("restore", ID)).toContain(`Restored ${ID}`);
+    expect(fs.readFileSync(filePath, "utf-8")).toBe(CONTENT);
+    expect(Math.floor(fs.statSync(filePath).mtimeMs)).toBe(mtime);
+    expect(fs.existsSync(home.path(".claude/MEMORY/ARCHIVE/2025-03.jsonl.gz"))).toBe(false);
+
+    expect(database("show", ID)).not.toContain("archived");
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * PAI Memory Archive
+ *
+ * Moves old, low-strength memory files into compressed monthly bundles
+ * (MEMORY/ARCHIVE/YYYY-MM.jsonl.gz) and restores them on request.
+ *
+ * Archived memories keep their database rows (marked archived = 1), so
+ * MemoryDatabase search still finds them. File-based tools (MemorySearch,
+ * WeeklySynthesis) skip them unless asked to include archived material.
+ * Only files under MEMORY/ are archived; vault notes and pinned memories are
+ * never moved.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import * as fs from "fs";
+import { gzipSync, gunzipSync } from "zlib";
+import { MEMORY_DIR } from "./MemoryPaths";
+import { resolveStoredPath, toStoredPath } from "./MemorySources";
+import { computeStrength } from "./MemoryStrength";
+
+export const ARCHIVE_DIR = path.join(MEMORY_DIR, "ARCHIVE");
+
+export interface ArchiveEntry {
+  id: string;
+  file_path: string; // Stored path (see MemorySources.toStoredPath)
+  content: string;
+  mtime: number; // Original file mtime in ms
+  archived_at: string;
+}
+
+export interface ArchivePolicy {
+  olderThanDays: number;
+  maxStrength: number;
+  maxImportance: number;
+  maxStability: number;
+  type?: string;
+}
+
+export const DEFAULT_ARCHIVE_POLICY: ArchivePolicy = {
+  olderThanDays: 180,
+  maxStrength: 0.3,
+  maxImportance: 3,
+  maxStability: 3,
+};
+
+function bundlePath(bundle: string): string {
+  return path.join(ARCHIVE_DIR, `${bundle}.jsonl.gz`);
+}
+
+export function listBundles(): string[] {
+  if (!fs.existsSync(ARCHIVE_DIR)) return [];
+  return fs
+    .readdirSync(ARCHIVE_DIR)
+    .filter((f) => f.endsWith(".jsonl.gz"))
+    .map((f) => f.replace(/\.jsonl\.gz$/, ""))
+    .sort();
+}
+
+export function readBundle(bundle: string): ArchiveEntry[] {
+  const file = bundlePath(bundle);
+  if (!fs.existsSync(file)) return [];
+  return gunzipSync(fs.readFileSync(file))
+    .toString("utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as ArchiveEntry);
+}
+
+// Write a bundle atomically; an empty bundle is deleted
+function writeBundle(bundle: string, entries: ArchiveEntry[]): void {
+  const file = bundlePath(bundle);
+  if (entries.length === 0) {
+    fs.rmSync(file, { force: true });
+    return;
+  }
+  fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, gzipSync(entries.map((e) => JSON.stringify(e)).join("\n") + "\n"));
+  fs.renameSync(tmp, file);
+}
+
+// Every archived entry across all bundles, with its bundle name
+export function loadArchivedEntries(): (ArchiveEntry & { bundle: string })[] {
+  return listBundles().flatMap((bundle) => readBundle(bundle).map((entry) => ({ ...entry, bundle })));
+}
+
+// Memories eligible for archiving under the policy
+export function selectArchiveCandidates(db: Database, policy: ArchivePolicy): any[] {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - policy.olderThanDays);
+  const cutoffStr = cutoff.toISOString().replace("T", " ").slice(0, 19);
+
+  const rows = db.prepare(`
+    SELECT id, timestamp, type, topic, file_path, rating, importance, stability, access_count
+    FROM memories
+    WHERE archived = 0
+      AND pinned = 0
+      AND file_path LIKE ? || '/%'
+      AND timestamp < ?
+      AND importance <= ?
+      AND stability <= ?
+      AND (? IS NULL OR type = ?)
+  `).all(toStoredPath(MEMORY_DIR), cutoffStr, policy.maxImportance, policy.maxStability, policy.type ?? null, policy.type ?? null) as any[];
+
+  const now = new Date();
+  return rows
+    .map((row) => ({ ...row, strength: computeStrength(row, now) }))
+    .filter((row) => row.strength <= policy.maxStrength && fs.existsSync(resolveStoredPath(row.file_path)));
+}
+
+// Move memory files into their monthly bundles and mark the rows archived.
+// Files are only deleted after their bundle has been written.
+export function archiveMemories(db: Database, memories: any[]): number {
+  const byBundle = new Map<string, any[]>();
+  for (const memory of memories) {
+    const bundle = String(memory.timestamp).slice(0, 7); // YYYY-MM
+    byBundle.set(bundle, [...(byBundle.get(bundle) || []), memory]);
+  }
+
+  const mark = db.prepare("UPDATE memories SET archived = 1, archive_bundle = ? WHERE id = ?");
+  let archived = 0;
+
+  for (const [bundle, group] of byBundle) {
+    const entries = readBundle(bundle).filter((e) => !group.some((m) => m.id === e.id));
+    const archivedAt = new Date().toISOString();
+
+    for (const memory of group) {
+      const filePath = resolveStoredPath(memory.file_path);
+      entries.push({
+        id: memory.id,
+        file_path: memory.file_path,
+        content: fs.readFileSync(filePath, "utf-8"),
+        mtime: Math.floor(fs.statSync(filePath).mtimeMs),
+        archived_at: archivedAt,
+      });
+    }
+
+    writeBundle(bundle, entries);
+
+    db.transaction(() => {
+      for (const memory of group) mark.run(bundle, memory.id);
+    })();
+    for (const memory of group) {
+      fs.rmSync(resolveStoredPath(memory.file_path), { force: true });
+      archived++;
+    }
+  }
+
+  return archived;
+}
+
+// Remove a memory from its bundle for good (MemoryDatabase.ts delete --remove-file)
+export function dropArchivedEntry(id: string, bundle: string): boolean {
+  const entries = readBundle(bundle);
+  if (!entries.some((e) => e.id === id)) return false;
+  writeBundle(bundle, entries.filter((e) => e.id !== id));
+  return true;
+}
+
+// Write an archived memory back to its original path and unmark it
+export function restoreMemory(db: Database, id: string): ArchiveEntry {
+  const row = db.prepare("SELECT archive_bundle FROM memories WHERE id = ? AND archived = 1").get(id) as any;
+  const bundles = row?.archive_bundle ? [row.archive_bundle] : listBundles();
+
+  for (const bundle of bundles) {
+    const entries = readBundle(bundle);
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) continue;
+
+    const filePath = resolveStoredPath(entry.file_path);
+    if (fs.existsSync(filePath)) {
+      throw new Error(`Refusing to overwrite existing file: ${filePath}`);
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, entry.content, "utf-8");
+    fs.utimesSync(filePath, new Date(), new Date(entry.mtime));
+
+    db.prepare("UPDATE memories SET archived = 0, archive_bundle = NULL WHERE id = ?").run(id);
+    writeBundle(bundle, entries.filter((e) => e.id !== id));
+    return entry;
+  }
+
+  throw new Error(`No archived memory with id ${id}`);
+}
@@ -0,0 +1,70 @@
+/**
+ * Contention test: sync, search and stats run side by side against one
+ * memory.db, as separate processes (like hooks and a watcher would)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import { createTestHome } from "./TestHome";
+import type { TestHome, ToolResult } from "./TestHome";
+
+const ROUNDS = 3;
+
+let home: TestHome;
+
+async function start(tool: string, args: string[]): Promise<ToolResult & { cmd: string }> {
+  const child = Bun.spawn(["bun", path.join(import.meta.dir, tool), ...args], {
+    env: home.env,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [code, stdout, stderr] = await Promise.all([
+    child.exited,
+    new Response(child.stdout).text(),
+    new Response(child.stderr).text(),
+  ]);
+  return { cmd: [tool, ...args].join(" "), code, stdout, stderr };
+}
+
+beforeEach(() => {
+  home = createTestHome();
+  for (let i = 0; i < 40; i++) {
+    const day = String((i % 28) + 1).padStart(2, "0");
+    home.write(
+      `.claude/MEMORY/LEARNING/SYSTEM/2026-09/2026-09-${day}-10${String(i).padStart(4, "0")}_LEARNING_note-${i}.md`,
+      `# Note ${i}\n\n**Rating:** ${(i % 10) + 1}/10\n\nSession memory note ${i}: ${"rotate tokens and check hooks. ".repeat(40)}\n`
+    );
+  }
+  expect(home.run("MemoryDatabase.ts", ["sync"]).code).toBe(0);
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("parallel sync, search and stats", () => {
+  test("complete without SQLITE_BUSY or lock errors", async () => {
+    const memoryDir = home.path(".claude/MEMORY/LEARNING/SYSTEM/2026-09");
+    for (let round = 0; round < ROUNDS; round++) {
+      // New mtimes make both syncs rewrite every row
+      const now = new Date(Date.now() - round * 1000);
+      for (const file of fs.readdirSync(memoryDir)) fs.utimesSync(path.join(memoryDir, file), now, now);
+
+      const runs = await Promise.all([
+        start("MemoryDatabase.ts", ["sync"]),
+        start("MemoryDatabase.ts", ["sync"]),
+        start("MemorySearch.ts", ["session memory", "--json"]),
+        start("MemoryDatabase.ts", ["search", "tokens"]),
+        start("MemoryDatabase.ts", ["stats", "--json"]),
+      ]);
+      // The command is part of each value, so a failure names it
+      for (const run of runs) {
+        expect(`${run.cmd}: ${run.stdout}${run.stderr}`).not.toMatch(/SQLITE_BUSY|database is locked|memory\.db is busy/i);
+        expect(`${run.cmd}: exit ${run.code}`).toBe(`${run.cmd}: exit 0`);
+      }
+    }
+  }, 120_000);
+});
@@ -0,0 +1,268 @@
+/**
+ * PAI Memory Crypto
+ *
+ * Encryption at rest for sources flagged `"sensitive": true` in
+ * memory-sources.json. The topic, tags and content of their memories are
+ * stored in memory_secrets, encrypted with AES-256-GCM under a key derived
+ * from a passphrase with scrypt; the memories row only keeps metadata
+ * (timestamp, type, rating, file path) and the source's fallback topic.
+ *
+ * Nothing leaves the machine. `MemoryDatabase.ts unlock` derives the key
+ * once and caches it outside MEMORY/ (so it is never next to the ciphertext
+ * or in a backup): in $XDG_RUNTIME_DIR, else /dev/shm, else the temp
+ * directory, in a 0700 directory of this user. A detached timer deletes the
+ * cache when it expires; `lock` deletes it at once. While locked, encrypted
+ * memories are left out of search and changed sensitive files are not
+ * indexed.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { spawn } from "child_process";
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+import { DB_PATH, STATE_DIR } from "./MemoryPaths";
+import { loadMemorySources, matchSourceFile } from "./MemorySources";
+
+// Per-user directory on a tmpfs where one exists
+function keyCacheDir(): string {
+  const runtime = process.env.XDG_RUNTIME_DIR;
+  if (runtime && fs.existsSync(runtime)) return path.join(runtime, "pai-memory");
+  const user = process.getuid?.() ?? os.userInfo().username;
+  const shm = "/dev/shm";
+  return path.join(fs.existsSync(shm) ? shm : os.tmpdir(), `pai-memory-${user}`);
+}
+
+// One cache per database, so profiles and PAI homes do not share a key
+export const KEY_CACHE_FILE = path.join(
+  keyCacheDir(),
+  `key-${createHash("sha256").update(DB_PATH).digest("hex").slice(0, 16)}.json`
+);
+// Where older versions kept the key; deleted on sight
+const LEGACY_KEY_CACHE_FILE = path.join(STATE_DIR, "memory-key.json");
+export const DEFAULT_UNLOCK_MINUTES = 30;
+
+// scrypt cost for new stores; existing stores keep the parameters they were
+// created with (memory_crypto.n/r/p)
+const SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1 };
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const CHECK_TEXT = "pai-memory-key-check";
+
+export interface EncryptedBlob {
+  iv: Uint8Array;
+  tag: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+// The encrypted part of a memory
+export interface SecretFields {
+  topic: string;
+  tags: string;
+  content: string;
+}
+
+interface KeyCache {
+  key: string; // base64
+  expiresAt: string;
+}
+
+export function deriveKey(passphrase: string, salt: Uint8Array, params = SCRYPT_PARAMS): Buffer {
+  return scryptSync(passphrase, salt, KEY_BYTES, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r,
+  });
+}
+
+export function encrypt(key: Buffer, plaintext: string): EncryptedBlob {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+// Throws if the key is wrong or the data was tampered with
+export function decrypt(key: Buffer, blob: EncryptedBlob): string {
+  const decipher = createDecipheriv("aes-256-gcm", key, blob.iv);
+  decipher.setAuthTag(blob.tag);
+  return Buffer.concat([decipher.update(blob.ciphertext), decipher.final()]).toString("utf-8");
+}
+
+// True once a passphrase has been set for this database
+export function hasEncryptionKey(db: Database): boolean {
+  return Boolean(db.prepare("SELECT 1 FROM memory_crypto WHERE id = 1").get());
+}
+
+// Derive the key for a passphrase. The first call sets the passphrase and
+// stores the salt and a check value; later calls return null for a wrong one.
+export function unlockKey(db: Database, passphrase: string): Buffer | null {
+  const row = db.prepare("SELECT * FROM memory_crypto WHERE id = 1").get() as any;
+  if (!row) {
+    const salt = randomBytes(16);
+    const key = deriveKey(passphrase, salt);
+    const check = encrypt(key, CHECK_TEXT);
+    db.prepare(`
+      INSERT INTO memory_crypto (id, salt, n, r, p, check_iv, check_tag, check_ciphertext)
+      VALUES (1, ?, ?, ?, ?, ?, ?, ?)
+    `).run(salt, SCRYPT_PARAMS.n, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p, check.iv, check.tag, check.ciphertext);
+    return key;
+  }
+
+  const key = deriveKey(passphrase, row.salt, { n: row.n, r: row.r, p: row.p });
+  return verifyKey(db, key) ? key : null;
+}
+
+export function verifyKey(db: Database, key: Buffer): boolean {
+  const row = db.prepare("SELECT check_iv, check_tag, check_ciphertext FROM memory_crypto WHERE id = 1").get() as any;
+  if (!row) return false;
+  try {
+    return decrypt(key, { iv: row.check_iv, tag: row.check_tag, ciphertext: row.check_ciphertext }) === CHECK_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+export function cacheKey(key: Buffer, minutes: number = DEFAULT_UNLOCK_MINUTES): Date {
+  const expiresAt = new Date(Date.now() + minutes * 60_000);
+  const cache: KeyCache = { key: key.toString("base64"), expiresAt: expiresAt.toISOString() };
+  const dir = path.dirname(KEY_CACHE_FILE);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const owner = fs.statSync(dir);
+  if (process.getuid && (owner.uid !== process.getuid() || (owner.mode & 0o077) !== 0)) {
+    throw new Error(`${dir} must be a directory of this user with mode 0700`);
+  }
+  fs.rmSync(LEGACY_KEY_CACHE_FILE, { force: true });
+  fs.rmSync(KEY_CACHE_FILE, { force: true });
+  fs.writeFileSync(KEY_CACHE_FILE, JSON.stringify(cache), { encoding: "utf-8", mode: 0o600 });
+
+  // Delete the cache on expiry even if no tool runs again
+  spawn(process.execPath, [import.meta.path, "expire", KEY_CACHE_FILE], { detached: true, stdio: "ignore" }).unref();
+  return expiresAt;
+}
+
+// Cached key and its expiry, or null when locked. An expired cache is deleted.
+export function loadCachedKey(now: Date = new Date()): { key: Buffer; expiresAt: Date } | null {
+  if (fs.existsSync(LEGACY_KEY_CACHE_FILE)) fs.rmSync(LEGACY_KEY_CACHE_FILE, { force: true });
+  let cache: KeyCache;
+  try {
+    cache = JSON.parse(fs.readFileSync(KEY_CACHE_FILE, "utf-8"));
+  } catch {
+    return null;
+  }
+  const expiresAt = new Date(cache.expiresAt);
+  if (!(expiresAt > now)) {
+    clearCachedKey();
+    return null;
+  }
+  return { key: Buffer.from(cache.key, "base64"), expiresAt };
+}
+
+export function clearCachedKey(): boolean {
+  const legacy = fs.existsSync(LEGACY_KEY_CACHE_FILE);
+  fs.rmSync(LEGACY_KEY_CACHE_FILE, { force: true });
+  if (!fs.existsSync(KEY_CACHE_FILE)) return legacy;
+  fs.rmSync(KEY_CACHE_FILE, { force: true });
+  return true;
+}
+
+// Cached key if it unlocks this database
+export function getUnlockedKey(db: Database): Buffer | null {
+  const cached = loadCachedKey();
+  return cached && verifyKey(db, cached.key) ? cached.key : null;
+}
+
+// Store the encrypted fields of a memory
+export function writeSecret(db: Database, memoryId: string, key: Buffer, fields: SecretFields): void {
+  const blob = encrypt(key, JSON.stringify(fields));
+  db.prepare(`
+    INSERT INTO memory_secrets (memory_id, iv, tag, ciphertext) VALUES (?, ?, ?, ?)
+    ON CONFLICT(memory_id) DO UPDATE SET iv = excluded.iv, tag = excluded.tag, ciphertext = excluded.ciphertext
+  `).run(memoryId, blob.iv, blob.tag, blob.ciphertext);
+}
+
+// Encrypted memories with their fields decrypted
+export function readSecrets(db: Database, key: Buffer): (Record<string, any> & SecretFields)[] {
+  const rows = db.prepare(`
+    SELECT m.*, s.iv, s.tag, s.ciphertext
+    FROM memories m
+    JOIN memory_secrets s ON s.memory_id = m.id
+    WHERE m.encrypted = 1
+  `).all() as any[];
+
+  return rows.map(({ iv, tag, ciphertext, ...row }) => ({
+    ...row,
+    ...(JSON.parse(decrypt(key, { iv, tag, ciphertext })) as SecretFields),
+  }));
+}
+
+// Whether a file belongs to a sensitive source
+export function isSensitivePath(filePath: string): boolean {
+  try {
+    return matchSourceFile(loadMemorySources(), filePath).some((file) => file.source.sensitive);
+  } catch {
+    return false;
+  }
+}
+
+// Read a passphrase from PAI_MEMORY_PASSPHRASE, the terminal (not echoed),
+// or the first line of piped stdin
+export async function readPassphrase(prompt: string): Promise<string> {
+  if (process.env.PAI_MEMORY_PASSPHRASE) return process.env.PAI_MEMORY_PASSPHRASE;
+
+  if (!process.stdin.isTTY) {
+    const input = await Bun.stdin.text();
+    return input.split(/\r?\n/)[0];
+  }
+
+  process.stderr.write(prompt);
+  process.stdin.setRawMode(true);
+  process.stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+    const finish = (error?: Error) => {
+      process.stdin.off("data", onData);
+      process.stdin.setRawMode(false);
+      process.stdin.pause();
+      process.stderr.write("\n");
+      if (error) reject(error);
+      else resolve(value);
+    };
+    const onData = (data: Buffer) => {
+      for (const char of data.toString("utf-8")) {
+        if (char === "\r" || char === "\n") return finish();
+        if (char === "\u0003") return finish(new Error("Cancelled"));
+        if (char === "\u007f" || char === "\b") value = value.slice(0, -1);
+        else value += char;
+      }
+    };
+    process.stdin.on("data", onData);
+  });
+}
+
+// `bun MemoryCrypto.ts expire <file>`, started by cacheKey: wait until the
+// cache expires and delete it. The file is re-read every minute, so a later
+// unlock extends the wait and a `lock` ends it.
+async function expireKeyCache(file: string): Promise<void> {
+  for (;;) {
+    let expiresAt: number;
+    try {
+      expiresAt = new Date(JSON.parse(fs.readFileSync(file, "utf-8")).expiresAt).getTime();
+    } catch {
+      return; // Locked or replaced by an unreadable file
+    }
+    const wait = expiresAt - Date.now();
+    if (!(wait > 0)) {
+      fs.rmSync(file, { force: true });
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(wait, 60_000)));
+  }
+}
+
+if (import.meta.main && process.argv[2] === "expire" && process.argv[3]) {
+  await expireKeyCache(process.argv[3]);
+}
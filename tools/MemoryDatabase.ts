@@ -6,24 +6,191 @@
  *
  * Usage:
  *   bun MemoryDatabase.ts init                           # Initialize database
- *   bun MemoryDatabase.ts insert <type> <file>           # Insert memory from file
+ *   bun MemoryDatabase.ts insert <type> [file]           # Insert memory from a file or stdin
+ *   bun MemoryDatabase.ts show|update|delete <id>        # Manage one memory by hand
+ *   bun MemoryDatabase.ts pin|unpin <id>                 # Always include in session context
  *   bun MemoryDatabase.ts search <query>                 # Search memories
- *   bun MemoryDatabase.ts sync                           # Sync all MEMORY files to DB
- *   bun MemoryDatabase.ts stats                          # Show database statistics
+ *   bun MemoryDatabase.ts search --hybrid <query>        # Full-text + semantic (RRF)
+ *   bun MemoryDatabase.ts semantic <query>               # Semantic (vector) search
+ *   bun MemoryDatabase.ts sync                           # Sync all memory sources to DB
+ *   bun MemoryDatabase.ts watch [--status]               # Keep the DB in sync as files change
+ *   bun MemoryDatabase.ts stats [report...]              # Growth, tags, ratings, sizes, ...
+ *   bun MemoryDatabase.ts scan [--fix]                   # Secrets and personal data in the index
+ *   bun MemoryDatabase.ts integrity [--repair]           # Check and repair the memory store
+ *   bun MemoryDatabase.ts unlock [--minutes N] | lock    # Key for encrypted (sensitive) sources
+ *   bun MemoryDatabase.ts search|semantic|stats --json   # Structured output (also --ndjson)
+ *   bun MemoryDatabase.ts decay-report                   # Memories about to fade
+ *   bun MemoryDatabase.ts links|backlinks <id>           # Outgoing/incoming links
+ *   bun MemoryDatabase.ts orphans                        # Memories without links
+ *   bun MemoryDatabase.ts graph [--format dot|graphml|json] [--out file]
+ *   bun MemoryDatabase.ts duplicates [--threshold N]     # Near-duplicate clusters
+ *   bun MemoryDatabase.ts merge <canonical> <dup...>     # Fold duplicates into one memory
+ *   bun MemoryDatabase.ts archive [--dry-run]            # Move old, weak memories to bundles
+ *   bun MemoryDatabase.ts restore <id>                   # Bring an archived memory back
+ *   bun MemoryDatabase.ts export [--out file] [filters]  # Portable JSONL export
+ *   bun MemoryDatabase.ts import <file> [--policy P]     # Import an export
+ *   bun MemoryDatabase.ts migrate [--status|--dry-run]   # Apply schema migrations
+ *   bun MemoryDatabase.ts profiles [create <name>]       # List or create profiles
+ *   bun MemoryDatabase.ts contention-check [--rounds N]  # Parallel sync/search/stats test
+ *
+ * Every command accepts --profile <name> (or PAI_MEMORY_PROFILE) to work on a
+ * profile's own sources, database and STATE files (see MemoryPaths.ts).
+ *
+ * Read-only commands open memory.db read-only; all others hold the writer
+ * lock (STATE/memory-write.lock) while they run (see MemoryLock.ts).
  */
 
 import { Database } from "bun:sqlite";
 import * as path from "path";
 import * as fs from "fs";
-import { Glob } from "bun";
-
-// Configuration
-const PAI_HOME = process.env.HOME + "/.claude";
-const MEMORY_DIR = path.join(PAI_HOME, "MEMORY");
-const DB_PATH = path.join(PAI_HOME, "MEMORY", "memory.db");
-
-// ANSI colors
-const colors = {
+import { createHash } from "crypto";
+import {
+  DB_PATH,
+  PROFILE,
+  DEFAULT_PROFILE,
+  profilePaths,
+  profileExists,
+  listProfiles,
+  createProfile,
+  isValidProfileName,
+  requireActiveProfile,
+  withoutProfileFlag,
+} from "./MemoryPaths";
+import {
+  loadMemorySources,
+  scanSource,
+  fallbackTopic,
+  toStoredPath,
+  resolveStoredPath,
+  expandRoot,
+  matchSourceFile,
+  belongsToSource,
+} from "./MemorySources";
+import type { SourceFile } from "./MemorySources";
+import { migrate, getSchemaVersion, getPendingMigrations, LATEST_VERSION } from "./MemoryMigrations";
+import {
+  getEmbedder,
+  cosineSimilarity,
+  vectorToBlob,
+  blobToVector,
+  reciprocalRankFusion,
+} from "./MemoryEmbeddings";
+import {
+  computeStrength,
+  daysUntilBelow,
+  importanceFromRating,
+  DEFAULT_STRENGTH_THRESHOLD,
+} from "./MemoryStrength";
+import { chunkMarkdown } from "./MarkdownChunker";
+import { parseLearning } from "./LearningParser";
+import { parseQuery, compileQuery, formatQueryError, QueryParseError } from "./MemoryQuery";
+import type { CompiledQuery } from "./MemoryQuery";
+import {
+  writeLinks,
+  resolveLinks,
+  getOutgoingLinks,
+  getBacklinks,
+  getOrphans,
+  getBrokenLinks,
+  getGraph,
+  formatGraph,
+} from "./MemoryLinks";
+import type { GraphFormat } from "./MemoryLinks";
+import { findDuplicates, mergeMemories, getAliases, DEFAULT_DUPLICATE_THRESHOLD } from "./MemoryDuplicates";
+import {
+  selectArchiveCandidates,
+  archiveMemories,
+  restoreMemory,
+  dropArchivedEntry,
+  DEFAULT_ARCHIVE_POLICY,
+} from "./MemoryArchive";
+import type { ArchivePolicy } from "./MemoryArchive";
+import {
+  exportMemories,
+  formatExport,
+  readExport,
+  importRecords,
+  applyImportedMetadata,
+} from "./MemoryTransfer";
+import type { ConflictPolicy, ExportHeader, ExportRecord } from "./MemoryTransfer";
+import {
+  buildStatsReport,
+  formatStatsReport,
+  STATS_REPORTS,
+  DEFAULT_STATS_OPTIONS,
+} from "./MemoryStats";
+import type { StatsOptions, StatsPeriod, StatsReportName } from "./MemoryStats";
+import { ansi, parseOutputFormat, withoutOutputFlags, writeDocument, writeRecords } from "./CliOutput";
+import type { OutputFormat } from "./CliOutput";
+import {
+  watchRoots,
+  watchPaths,
+  readWatchStatus,
+  writeWatchStatus,
+  isWatchAlive,
+  WATCH_STATUS_FILE,
+  DEFAULT_DEBOUNCE_MS,
+  DEFAULT_HEARTBEAT_MS,
+  DEFAULT_RESYNC_MINUTES,
+} from "./MemoryWatch";
+import type { WatchStatus } from "./MemoryWatch";
+import {
+  getRedactor,
+  redactContent,
+  writeRedactions,
+  scanMemories,
+  getRedactionSummary,
+  REDACTION_FILE,
+} from "./MemoryRedaction";
+import {
+  getUnlockedKey,
+  unlockKey,
+  hasEncryptionKey,
+  cacheKey,
+  clearCachedKey,
+  readPassphrase,
+  readSecrets,
+  writeSecret,
+  DEFAULT_UNLOCK_MINUTES,
+} from "./MemoryCrypto";
+import {
+  checkIntegrity,
+  repairIntegrity,
+  markRepaired,
+  buildReport,
+  writeIntegrityState,
+  INTEGRITY_CHECKS,
+  INTEGRITY_STATE_FILE,
+} from "./MemoryIntegrity";
+import type { IntegrityReport } from "./MemoryIntegrity";
+import {
+  parseOverrideFlags,
+  withoutOverrideFlags,
+  getOverrides,
+  setOverrides,
+  applyOverrides,
+  setPinned,
+  isTombstoned,
+  addTombstone,
+  clearTombstone,
+  writeManualFile,
+  MEMORY_TYPES,
+  ENCRYPTED_FIELDS,
+} from "./MemoryManual";
+import type { MemoryOverrides, MemoryType } from "./MemoryManual";
+import {
+  configureConnection,
+  openReadOnly,
+  acquireWriteLock,
+  withWriteLock,
+  withBusyRetry,
+  isBusyError,
+  LOCK_TIMEOUT_MS,
+} from "./MemoryLock";
+import type { Embedder, MemorySearchRecord, MemorySource } from "./types/memory";
+
+// ANSI colors (empty when not writing to a terminal, see CliOutput.ts)
+const colors = ansi({
   reset: "\x1b[0m",
   bold: "\x1b[1m",
   dim: "\x1b[2m",
@@ -32,7 +199,7 @@ const colors = {
   green: "\x1b[32m",
   magenta: "\x1b[35m",
   red: "\x1b[31m",
-};
+});
 
 interface Memory {
   id: string;
@@ -45,84 +212,91 @@ interface Memory {
   file_path: string;
   importance: number; // 1-5
   stability: number; // 1-5
+  content_hash: string;
+  mtime: number; // Source file mtime in ms
 }
 
-// Initialize database with schema
-function initDatabase(): Database {
-  const db = new Database(DB_PATH, { create: true });
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS memories (
-      id TEXT PRIMARY KEY,
-      timestamp DATETIME NOT NULL,
-      type TEXT NOT NULL,
-      topic TEXT,
-      content TEXT NOT NULL,
-      rating INTEGER,
-      tags TEXT,
-      file_path TEXT NOT NULL,
-      importance INTEGER DEFAULT 3,
-      stability INTEGER DEFAULT 3,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
+// Outcome of a sync run
+interface SyncReport {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  redacted: number; // Values masked or dropped in added and updated files
+  locked: number; // Changed files of sensitive sources skipped while locked
+}
 
-    CREATE INDEX IF NOT EXISTS idx_timestamp ON memories(timestamp);
-    CREATE INDEX IF NOT EXISTS idx_type ON memories(type);
-    CREATE INDEX IF NOT EXISTS idx_topic ON memories(topic);
-    CREATE INDEX IF NOT EXISTS idx_rating ON memories(rating);
-    CREATE INDEX IF NOT EXISTS idx_importance ON memories(importance);
-    CREATE INDEX IF NOT EXISTS idx_stability ON memories(stability);
-    CREATE INDEX IF NOT EXISTS idx_created_at ON memories(created_at);
+// Commands that only read memory.db. They open it read-only and never wait
+// for the writer lock (see MemoryLock.ts).
+const READ_ONLY_COMMANDS = new Set([
+  "search",
+  "semantic",
+  "stats",
+  "decay-report",
+  "links",
+  "backlinks",
+  "orphans",
+  "graph",
+  "duplicates",
+  "show",
+  "export",
+]);
+
+function isReadOnlyCommand(command: string, args: string[]): boolean {
+  if (command === "scan") return !args.includes("--fix");
+  return READ_ONLY_COMMANDS.has(command);
+}
 
-    -- Full-text search virtual table
-    CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
-      id,
-      content,
-      topic,
-      tags,
-      content='memories',
-      content_rowid='rowid'
-    );
+// Connections opened with { readonly: true }
+const readOnlyConnections = new WeakSet<Database>();
 
-    -- FTS triggers to keep search index updated
-    CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
-      INSERT INTO memories_fts(rowid, id, content, topic, tags)
-      VALUES (new.rowid, new.id, new.content, new.topic, new.tags);
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
-      DELETE FROM memories_fts WHERE rowid = old.rowid;
-    END;
-
-    CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE ON memories BEGIN
-      UPDATE memories_fts SET
-        id = new.id,
-        content = new.content,
-        topic = new.topic,
-        tags = new.tags
-      WHERE rowid = new.rowid;
-    END;
-  `);
+// Open the database file without touching the schema
+function openDatabase(): Database {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  return configureConnection(new Database(DB_PATH, { create: true }));
+}
 
-  console.log(`${colors.green}✓ Database initialized at ${DB_PATH}${colors.reset}`);
+// Open an up-to-date database read-only; null if it does not exist yet or
+// needs migrating, which only a writer may do
+function openReadOnlyDatabase(): Database | null {
+  if (!fs.existsSync(DB_PATH)) return null;
+  const db = openReadOnly(DB_PATH);
+  if (getSchemaVersion(db) !== LATEST_VERSION) {
+    db.close();
+    return null;
+  }
+  readOnlyConnections.add(db);
+  return db;
+}
+
+// Initialize database with schema, applying any pending migrations
+function initDatabase(): Database {
+  const db = openDatabase();
+
+  // Status goes to stderr so command output on stdout can be piped
+  for (const migration of migrate(db, DB_PATH)) {
+    console.error(`${colors.dim}  Applied migration ${migration.version}: ${migration.description}${colors.reset}`);
+  }
+
+  console.error(`${colors.green}✓ Database initialized at ${DB_PATH}${colors.reset}`);
   return db;
 }
 
-// Extract metadata from file content
-function extractMetadata(content: string, filePath: string): Partial<Memory> {
-  const metadata: Partial<Memory> = {
+// Extract metadata from file content (see LearningParser.ts)
+function extractMetadata(
+  content: string,
+  filePath: string
+): Partial<Memory> & { date?: string; warnings: string[] } {
+  const doc = parseLearning(content, filePath);
+  const metadata: Partial<Memory> & { date?: string; warnings: string[] } = {
     topic: "",
-    rating: null,
-    tags: "",
-    importance: 3,
-    stability: 3,
+    rating: doc.rating,
+    tags: doc.tags.map((tag) => `#${tag}`).join(" "),
+    warnings: doc.warnings,
   };
+  // importance/stability stay unset without a signal so source defaults apply
 
-  // Extract rating from content
-  const ratingMatch = content.match(/(?:rating|RATE).*?(\d+)/i);
-  if (ratingMatch) {
-    metadata.rating = parseInt(ratingMatch[1]);
-  }
+  if (doc.date) metadata.date = doc.date;
 
   // Extract topic from filename or content
   const fileNameMatch = filePath.match(/(?:LEARNING|WORK).*?\/([^\/]+)\.\w+$/);
@@ -132,24 +306,14 @@ function extractMetadata(content: string, filePath: string): Partial<Memory> {
       .replace(/[-_]/g, " "); // Replace separators with spaces
   }
 
-  // Try to extract topic from content headers
-  const topicMatch = content.match(/^#\s+(.+)$/m);
-  if (topicMatch && topicMatch[1]) {
-    metadata.topic = topicMatch[1];
-  }
-
-  // Extract tags from content
-  const tagMatches = content.match(/#[a-zA-Z0-9_]+/g);
-  if (tagMatches) {
-    metadata.tags = tagMatches.join(" ");
+  // Title from front-matter or the first heading
+  if (doc.title) {
+    metadata.topic = doc.title;
   }
 
   // Determine importance based on rating and content signals
   if (metadata.rating) {
-    if (metadata.rating >= 8) metadata.importance = 5;
-    else if (metadata.rating >= 6) metadata.importance = 4;
-    else if (metadata.rating >= 4) metadata.importance = 3;
-    else metadata.importance = 2;
+    metadata.importance = importanceFromRating(metadata.rating);
   }
 
   // Determine stability based on content type
@@ -168,8 +332,9 @@ function extractMetadata(content: string, filePath: string): Partial<Memory> {
 function insertMemory(db: Database, memory: Memory): void {
   const stmt = db.prepare(`
     INSERT INTO memories (
-      id, timestamp, type, topic, content, rating, tags, file_path, importance, stability
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      id, timestamp, type, topic, content, rating, tags, file_path, importance, stability,
+      content_hash, mtime
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(id) DO UPDATE SET
       timestamp = excluded.timestamp,
       type = excluded.type,
@@ -179,7 +344,11 @@ function insertMemory(db: Database, memory: Memory): void {
       tags = excluded.tags,
       file_path = excluded.file_path,
       importance = excluded.importance,
-      stability = excluded.stability
+      stability = excluded.stability,
+      content_hash = excluded.content_hash,
+      mtime = excluded.mtime,
+      archived = 0,
+      archive_bundle = NULL
   `);
 
   stmt.run(
@@ -192,12 +361,155 @@ function insertMemory(db: Database, memory: Memory): void {
     memory.tags,
     memory.file_path,
     memory.importance,
-    memory.stability
+    memory.stability,
+    memory.content_hash,
+    memory.mtime
   );
 }
 
-// Extract timestamp from file path
-function extractTimestamp(filePath: string): string {
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Upsert one file unless its mtime or content hash shows it is unchanged.
+// The file is only read when its mtime differs from the indexed row. Fields
+// set by hand (insert/update) are re-applied over the extracted ones.
+// Files of sensitive sources are encrypted with the unlocked key; without
+// one, changes to them are left for a later sync.
+function syncFile(
+  db: Database,
+  report: SyncReport,
+  seen: Map<string, string>,
+  id: string,
+  filePath: string,
+  source: MemorySource,
+  key: Buffer | null
+): void {
+  // Deleted by hand with the file kept (see MemoryManual.ts)
+  if (isTombstoned(db, id)) return;
+
+  const storedPath = toStoredPath(filePath);
+  const mtime = Math.floor(fs.statSync(filePath).mtimeMs);
+  const encrypted = source.sensitive ? 1 : 0;
+  seen.set(id, storedPath);
+
+  const existing = db
+    .prepare("SELECT content_hash, mtime, file_path, archived, encrypted FROM memories WHERE id = ?")
+    .get(id) as {
+    content_hash: string | null;
+    mtime: number | null;
+    file_path: string;
+    archived: number;
+    encrypted: number;
+  } | null;
+
+  // A file reappearing at an archived memory's path, or whose source was
+  // flagged or unflagged as sensitive, is indexed afresh
+  if (existing && (existing.archived || existing.encrypted !== encrypted)) {
+    existing.content_hash = null;
+    existing.mtime = null;
+  }
+
+  if (existing && existing.mtime === mtime && existing.file_path === storedPath) {
+    report.unchanged++;
+    return;
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  const contentHash = hashContent(content);
+
+  if (existing && existing.content_hash === contentHash && existing.file_path === storedPath) {
+    db.prepare("UPDATE memories SET mtime = ? WHERE id = ?").run(mtime, id);
+    report.unchanged++;
+    return;
+  }
+
+  if (encrypted && !key) {
+    report.locked++;
+    return;
+  }
+
+  // Only redacted content reaches the index; the hash stays on the raw file
+  const { content: redacted, redactions } = redactContent(content, getRedactor());
+  const memory = memoryBuilder(source, filePath)(redacted);
+
+  if (encrypted) {
+    // The row keeps metadata only; no chunks, links or embeddings
+    insertMemory(db, {
+      ...memory,
+      topic: fallbackTopic(source, filePath),
+      content: "",
+      tags: "",
+      id,
+      file_path: storedPath,
+      content_hash: contentHash,
+      mtime,
+    });
+    writeSecret(db, id, key!, { topic: memory.topic, tags: memory.tags, content: memory.content });
+    writeChunks(db, id, "");
+    writeLinks(db, id, "");
+    db.prepare("DELETE FROM memory_embeddings WHERE memory_id = ?").run(id);
+  } else {
+    insertMemory(db, {
+      ...memory,
+      id,
+      file_path: storedPath,
+      content_hash: contentHash,
+      mtime,
+    });
+    writeChunks(db, id, redacted);
+    writeLinks(db, id, redacted);
+    db.prepare("DELETE FROM memory_secrets WHERE memory_id = ?").run(id);
+  }
+  db.prepare("UPDATE memories SET encrypted = ? WHERE id = ?").run(encrypted, id);
+  applyOverrides(db, id);
+  writeRedactions(db, id, redactions);
+  report.redacted += redactions.length;
+
+  if (existing) report.updated++;
+  else report.added++;
+}
+
+// Delete rows not seen during this sync whose file is gone, whose file is
+// now indexed under a different id (e.g. after a rename of the id scheme), or
+// whose file no source matches any more (e.g. a file type dropped from a
+// glob). Files outside a recency window still match and are kept. Archived
+// rows have no file by design and are kept.
+function removeStaleMemories(db: Database, seen: Map<string, string>, sources: MemorySource[]): number {
+  const claimedPaths = new Set(seen.values());
+  const rows = db.prepare("SELECT id, file_path FROM memories WHERE archived = 0").all() as {
+    id: string;
+    file_path: string;
+  }[];
+  const remove = db.prepare("DELETE FROM memories WHERE id = ?");
+  let removed = 0;
+
+  for (const row of rows) {
+    if (seen.has(row.id)) continue;
+    const filePath = resolveStoredPath(row.file_path);
+    if (claimedPaths.has(row.file_path) || !fs.existsSync(filePath) || !belongsToSource(sources, filePath)) {
+      remove.run(row.id);
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+// Replace the section chunks of a memory
+function writeChunks(db: Database, memoryId: string, content: string): void {
+  db.prepare("DELETE FROM memory_chunks WHERE memory_id = ?").run(memoryId);
+  const insert = db.prepare(`
+    INSERT INTO memory_chunks (memory_id, ordinal, heading_path, start_line, end_line, content)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  for (const chunk of chunkMarkdown(content)) {
+    insert.run(memoryId, chunk.ordinal, chunk.headingPath, chunk.startLine, chunk.endLine, chunk.content);
+  }
+}
+
+// Extract timestamp from file path, else the document date, else mtime
+function extractTimestamp(filePath: string, documentDate?: string): string {
   // Try WORK directory: 20260129-150618_...
   const workMatch = filePath.match(/WORK\/(\d{8})-(\d{6})_/);
   if (workMatch) {
@@ -218,6 +530,10 @@ function extractTimestamp(filePath: string): string {
     return `${learningMatch[1]} 12:00:00`; // Default to noon
   }
 
+  if (documentDate) {
+    return `${documentDate} 12:00:00`;
+  }
+
   // Fallback to file modification time
   try {
     const stats = fs.statSync(filePath);
@@ -227,186 +543,232 @@ function extractTimestamp(filePath: string): string {
   }
 }
 
-// Sync all memory files to database
-async function syncAllMemories(db: Database): Promise<number> {
-  let count = 0;
+// Builds the row for a source file from its content
+function memoryBuilder(
+  source: MemorySource,
+  filePath: string
+): (content: string) => Omit<Memory, "id" | "file_path" | "content_hash" | "mtime"> {
+  return (content) => {
+    const metadata = extractMetadata(content, filePath);
+    if (source.type === "learning") {
+      for (const warning of metadata.warnings) {
+        console.error(`${colors.yellow}  ⚠ ${toStoredPath(filePath)}: ${warning}${colors.reset}`);
+      }
+    }
+    return {
+      timestamp: extractTimestamp(filePath, metadata.date),
+      type: source.type,
+      topic: metadata.topic || fallbackTopic(source, filePath),
+      content,
+      rating: metadata.rating || null,
+      tags: metadata.tags || "",
+      importance: metadata.importance || source.importance,
+      stability: metadata.stability || source.stability,
+    };
+  };
+}
 
-  // Sync WORK files
-  const workDir = path.join(MEMORY_DIR, "WORK");
-  if (fs.existsSync(workDir)) {
-    const workGlob = new Glob("*/{summary.md,IDEAL.md}");
-    for await (const file of workGlob.scan({ cwd: workDir, absolute: false })) {
-      const filePath = path.join(workDir, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const metadata = extractMetadata(content, filePath);
-
-      const memory: Memory = {
-        id: `work_${path.dirname(file)}`,
-        timestamp: extractTimestamp(filePath),
-        type: "work",
-        topic: metadata.topic || "Work Session",
-        content: content.slice(0, 5000), // Limit content size
-        rating: metadata.rating || null,
-        tags: metadata.tags || "",
-        file_path: filePath.replace(PAI_HOME + "/", ""),
-        importance: metadata.importance || 3,
-        stability: metadata.stability || 2,
-      };
+// Sync all memory files from the source registry to database
+async function syncAllMemories(db: Database): Promise<SyncReport> {
+  const report: SyncReport = { added: 0, updated: 0, removed: 0, unchanged: 0, redacted: 0, locked: 0 };
+  const seen = new Map<string, string>();
+  const sources = loadMemorySources();
+  const key = getUnlockedKey(db);
 
-      insertMemory(db, memory);
-      count++;
+  withBusyRetry(() => db.exec("BEGIN IMMEDIATE"));
+  try {
+    for (const source of sources) {
+      // Files outside a source's recency window are skipped, not removed
+      for (const { filePath, id } of await scanSource(source)) {
+        syncFile(db, report, seen, id, filePath, source, key);
+      }
     }
+
+    report.removed = removeStaleMemories(db, seen, sources);
+    resolveLinks(db);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
   }
 
-  // Sync LEARNING/ALGORITHM files
-  const algoDir = path.join(MEMORY_DIR, "LEARNING", "ALGORITHM");
-  if (fs.existsSync(algoDir)) {
-    const algoGlob = new Glob("**/*.md");
-    for await (const file of algoGlob.scan({ cwd: algoDir, absolute: false })) {
-      const filePath = path.join(algoDir, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const metadata = extractMetadata(content, filePath);
-
-      const memory: Memory = {
-        id: `algo_${file.replace(/\//g, "_").replace(/\.md$/, "")}`,
-        timestamp: extractTimestamp(filePath),
-        type: "learning",
-        topic: metadata.topic || "Algorithm Learning",
-        content,
-        rating: metadata.rating || null,
-        tags: metadata.tags || "",
-        file_path: filePath.replace(PAI_HOME + "/", ""),
-        importance: metadata.importance || 4,
-        stability: metadata.stability || 4,
-      };
+  console.log(
+    `${colors.green}✓ Synced memories: ${report.added} added, ${report.updated} updated, ` +
+      `${report.removed} removed, ${report.unchanged} unchanged${colors.reset}`
+  );
+  if (report.redacted > 0) {
+    console.log(`${colors.yellow}⚠ Redacted ${report.redacted} sensitive values (see: scan)${colors.reset}`);
+  }
+  if (report.locked > 0) {
+    console.log(
+      `${colors.yellow}⚠ ${report.locked} files of sensitive sources not indexed while locked ` +
+        `(run: bun MemoryDatabase.ts unlock)${colors.reset}`
+    );
+  }
 
-      insertMemory(db, memory);
-      count++;
-    }
+  const embedded = updateEmbeddings(db, getEmbedder());
+  if (embedded > 0) {
+    console.log(`${colors.green}✓ Embedded ${embedded} memories${colors.reset}`);
   }
 
-  // Sync LEARNING/SYSTEM files
-  const sysDir = path.join(MEMORY_DIR, "LEARNING", "SYSTEM");
-  if (fs.existsSync(sysDir)) {
-    const sysGlob = new Glob("**/*.md");
-    for await (const file of sysGlob.scan({ cwd: sysDir, absolute: false })) {
-      const filePath = path.join(sysDir, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const metadata = extractMetadata(content, filePath);
-
-      const memory: Memory = {
-        id: `sys_${file.replace(/\//g, "_").replace(/\.md$/, "")}`,
-        timestamp: extractTimestamp(filePath),
-        type: "learning",
-        topic: metadata.topic || "System Learning",
-        content,
-        rating: metadata.rating || null,
-        tags: metadata.tags || "",
-        file_path: filePath.replace(PAI_HOME + "/", ""),
-        importance: metadata.importance || 4,
-        stability: metadata.stability || 4,
-      };
+  return report;
+}
 
-      insertMemory(db, memory);
-      count++;
+// Sync only the given paths, as reported by the file watcher. Files are
+// upserted under every source they match, directories are rescanned, and
+// rows whose file (or directory) is gone are removed.
+async function syncPaths(db: Database, sources: MemorySource[], paths: string[]): Promise<SyncReport> {
+  const report: SyncReport = { added: 0, updated: 0, removed: 0, unchanged: 0, redacted: 0, locked: 0 };
+  const files = new Map<string, SourceFile>();
+  const gone: string[] = [];
+
+  for (const changed of new Set(paths)) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(changed);
+    } catch {
+      gone.push(changed);
+      continue;
     }
-  }
-
-  // Sync vault/work files (optional - user's personal vault)
-  const vaultWork = path.join(process.env.HOME!, "vault", "work");
-  if (fs.existsSync(vaultWork)) {
-    const vaultWorkGlob = new Glob("**/*.md");
-    for await (const file of vaultWorkGlob.scan({ cwd: vaultWork, absolute: false })) {
-      const filePath = path.join(vaultWork, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const metadata = extractMetadata(content, filePath);
-
-      const memory: Memory = {
-        id: `vault_work_${file.replace(/\//g, "_").replace(/\.md$/, "")}`,
-        timestamp: extractTimestamp(filePath),
-        type: "work",
-        topic: metadata.topic || path.basename(file, ".md"),
-        content,
-        rating: metadata.rating || null,
-        tags: metadata.tags || "",
-        file_path: filePath.replace(process.env.HOME + "/", "~/"),
-        importance: metadata.importance || 4,
-        stability: metadata.stability || 3,
-      };
 
-      insertMemory(db, memory);
-      count++;
+    if (stat.isFile()) {
+      for (const file of matchSourceFile(sources, changed)) files.set(file.id, file);
+    } else if (stat.isDirectory()) {
+      for (const source of sources) {
+        const root = expandRoot(source.root);
+        if (root !== changed && !root.startsWith(changed + "/") && !changed.startsWith(root + "/")) continue;
+        for (const file of await scanSource(source)) {
+          if (file.filePath.startsWith(changed + "/")) files.set(file.id, file);
+        }
+      }
     }
   }
 
-  // Sync vault/projects files (optional - user's personal vault)
-  const vaultProjects = path.join(process.env.HOME!, "vault", "projects");
-  if (fs.existsSync(vaultProjects)) {
-    const vaultProjectsGlob = new Glob("**/*.md");
-    for await (const file of vaultProjectsGlob.scan({ cwd: vaultProjects, absolute: false })) {
-      const filePath = path.join(vaultProjects, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const metadata = extractMetadata(content, filePath);
-
-      const memory: Memory = {
-        id: `vault_project_${file.replace(/\//g, "_").replace(/\.md$/, "")}`,
-        timestamp: extractTimestamp(filePath),
-        type: "work",
-        topic: metadata.topic || path.basename(file, ".md"),
-        content,
-        rating: metadata.rating || null,
-        tags: metadata.tags || "",
-        file_path: filePath.replace(process.env.HOME + "/", "~/"),
-        importance: metadata.importance || 5,
-        stability: metadata.stability || 4,
-      };
+  const key = getUnlockedKey(db);
+  withBusyRetry(() => db.exec("BEGIN IMMEDIATE"));
+  try {
+    const seen = new Map<string, string>();
+    for (const { source, filePath, id } of files.values()) {
+      if (!fs.existsSync(filePath)) continue; // Deleted again before the batch ran
+      syncFile(db, report, seen, id, filePath, source, key);
+    }
 
-      insertMemory(db, memory);
-      count++;
+    if (gone.length > 0) {
+      const rows = db.prepare("SELECT id, file_path FROM memories WHERE archived = 0").all() as {
+        id: string;
+        file_path: string;
+      }[];
+      const remove = db.prepare("DELETE FROM memories WHERE id = ?");
+      for (const row of rows) {
+        const filePath = resolveStoredPath(row.file_path);
+        const inGone = gone.some((g) => filePath === g || filePath.startsWith(g + "/"));
+        if (inGone && !fs.existsSync(filePath)) {
+          remove.run(row.id);
+          report.removed++;
+        }
+      }
     }
-  }
 
-  // Sync vault/journal files (optional - recent only, last 30 days)
-  const vaultJournal = path.join(process.env.HOME!, "vault", "journal");
-  if (fs.existsSync(vaultJournal)) {
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    if (report.added + report.updated + report.removed > 0) resolveLinks(db);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
 
-    const journalGlob = new Glob("*.md");
-    for await (const file of journalGlob.scan({ cwd: vaultJournal, absolute: false })) {
-      const filePath = path.join(vaultJournal, file);
-      const stats = fs.statSync(filePath);
+  updateEmbeddings(db, getEmbedder());
+  return report;
+}
 
-      // Only index recent journal entries
-      if (stats.mtime > thirtyDaysAgo) {
-        const content = fs.readFileSync(filePath, "utf-8");
-        const metadata = extractMetadata(content, filePath);
+// Text that represents a memory for embedding
+function embeddingText(memory: { topic: string; tags: string; content: string }): string {
+  return `${memory.topic}\n${memory.tags}\n${memory.content}`;
+}
 
-        const memory: Memory = {
-          id: `vault_journal_${file.replace(/\.md$/, "")}`,
-          timestamp: extractTimestamp(filePath),
-          type: "session",
-          topic: metadata.topic || `Journal ${file.replace(/\.md$/, "")}`,
-          content: content.slice(0, 3000), // Limit journal content for privacy
-          rating: metadata.rating || null,
-          tags: metadata.tags || "",
-          file_path: filePath.replace(process.env.HOME + "/", "~/"),
-          importance: metadata.importance || 3,
-          stability: metadata.stability || 2,
-        };
+// Embed memories whose vector is missing, stale, or from another embedder
+function updateEmbeddings(db: Database, embedder: Embedder): number {
+  const stale = db.prepare(`
+    SELECT m.id, m.topic, m.tags, m.content, m.content_hash
+    FROM memories m
+    LEFT JOIN memory_embeddings e ON e.memory_id = m.id
+    WHERE m.encrypted = 0
+      AND (e.memory_id IS NULL OR e.model != ? OR e.content_hash IS NOT m.content_hash)
+  `).all(embedder.name) as any[];
+
+  const upsert = db.prepare(`
+    INSERT INTO memory_embeddings (memory_id, model, dimensions, content_hash, vector)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(memory_id) DO UPDATE SET
+      model = excluded.model,
+      dimensions = excluded.dimensions,
+      content_hash = excluded.content_hash,
+      vector = excluded.vector
+  `);
 
-        insertMemory(db, memory);
-        count++;
-      }
+  db.transaction(() => {
+    for (const memory of stale) {
+      const vector = embedder.embed(embeddingText(memory));
+      upsert.run(memory.id, embedder.name, embedder.dimensions, memory.content_hash, vectorToBlob(vector));
     }
+  })();
+
+  return stale.length;
+}
+
+// Re-rank results by relevance scaled with current memory strength, so a
+// strong, stable memory beats a fading one of similar relevance
+function rankByStrength(results: any[], relevance: (row: any) => number): any[] {
+  const now = new Date();
+  return results
+    .map((row) => {
+      const strength = computeStrength(row, now);
+      return { ...row, strength, score: relevance(row) * (0.5 + strength) };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Count an access for memories returned to the user (slows their decay)
+// Access counts are best-effort: a read-only command records them through a
+// short-lived connection that gives up instead of waiting for a writer
+function recordAccess(db: Database, results: any[]): void {
+  if (results.length === 0) return;
+  const writer = readOnlyConnections.has(db) ? new Database(DB_PATH) : db;
+  try {
+    if (writer !== db) writer.exec("PRAGMA busy_timeout = 100");
+    const stmt = writer.prepare(
+      "UPDATE memories SET access_count = access_count + 1, last_accessed = CURRENT_TIMESTAMP WHERE id = ?"
+    );
+    writer.transaction(() => {
+      for (const result of results) stmt.run(result.id);
+    })();
+  } catch (error) {
+    if (!isBusyError(error)) throw error;
+  } finally {
+    if (writer !== db) writer.close();
   }
+}
 
-  console.log(`${colors.green}✓ Synced ${count} memories to database${colors.reset}`);
-  return count;
+// WHERE conditions and parameters shared by every search mode: query
+// filters, excluded terms, and merged duplicates
+function queryConditions(query: CompiledQuery): { conditions: string[]; params: (string | number)[] } {
+  // Encrypted rows only hold metadata; they are searched in the unlocked index
+  const conditions = ["m.id NOT IN (SELECT alias_id FROM memory_aliases)", "m.encrypted = 0", ...query.where];
+  const params = [...query.params];
+  if (query.exclude) {
+    conditions.push("m.rowid NOT IN (SELECT rowid FROM memories_fts WHERE memories_fts MATCH ?)");
+    params.push(query.exclude);
+  }
+  return { conditions, params };
 }
 
-// Search memories using full-text search
-function searchMemories(db: Database, query: string, limit: number = 20): any[] {
+// Search memories using full-text search and query filters (see MemoryQuery.ts)
+function searchMemories(db: Database, query: CompiledQuery, limit: number = 20): any[] {
+  const { conditions, params } = queryConditions(query);
+  if (query.match) {
+    conditions.unshift("memories_fts MATCH ?");
+    params.unshift(query.match);
+  }
+
   const stmt = db.prepare(`
     SELECT
       m.id,
@@ -419,63 +781,1116 @@ function searchMemories(db: Database, query: string, limit: number = 20): any[]
       m.file_path,
       m.importance,
       m.stability,
-      rank
+      m.access_count,
+      m.archived,
+      ${query.match ? "rank" : "0 AS rank"}
     FROM memories m
-    JOIN memories_fts ON m.rowid = memories_fts.rowid
-    WHERE memories_fts MATCH ?
+    ${query.match ? "JOIN memories_fts ON m.rowid = memories_fts.rowid" : ""}
+    WHERE ${conditions.join("\n      AND ")}
     ORDER BY rank, m.importance DESC, m.timestamp DESC
     LIMIT ?
   `);
 
-  return stmt.all(query, limit) as any[];
+  // bm25 rank is negative; fetch extra candidates so strength can reorder them.
+  // Filter-only queries have no rank and are ordered by strength alone.
+  const candidates = stmt.all(...params, limit * 3) as any[];
+  const results = rankByStrength(candidates, (row) => (query.match ? -row.rank : 1)).slice(0, limit);
+  if (query.match) attachSections(db, results, query.match);
+  return results;
 }
 
-// Get database statistics
-function getStats(db: Database): any {
-  const totalStmt = db.prepare("SELECT COUNT(*) as total FROM memories");
-  const typeStmt = db.prepare("SELECT type, COUNT(*) as count FROM memories GROUP BY type");
-  const ratingStmt = db.prepare(`
+// Attach the best-matching sections (heading path, line range, snippet) to
+// each result. Documents that only match across sections get none.
+function attachSections(db: Database, results: any[], query: string, perMemory: number = 3): void {
+  if (results.length === 0) return;
+
+  const placeholders = results.map(() => "?").join(", ");
+  const sections = db.prepare(`
     SELECT
-      AVG(rating) as avg_rating,
-      MIN(rating) as min_rating,
-      MAX(rating) as max_rating,
-      COUNT(*) as rated_count
-    FROM memories WHERE rating IS NOT NULL
-  `);
+      c.memory_id,
+      c.heading_path,
+      c.start_line,
+      c.end_line,
+      snippet(memory_chunks_fts, 0, ?, ?, '…', 16) AS snippet
+    FROM memory_chunks_fts
+    JOIN memory_chunks c ON c.id = memory_chunks_fts.rowid
+    WHERE memory_chunks_fts MATCH ? AND c.memory_id IN (${placeholders})
+    ORDER BY memory_chunks_fts.rank
+  `).all(colors.yellow, colors.reset, query, ...results.map((r) => r.id)) as any[];
+
+  for (const result of results) {
+    result.sections = sections.filter((s) => s.memory_id === result.id).slice(0, perMemory);
+  }
+}
+
+// Search memories by cosine similarity to the query embedding. Filters and
+// excluded terms of the query still apply.
+function semanticSearch(db: Database, query: CompiledQuery, limit: number = 20): any[] {
+  const embedder = getEmbedder();
+  const queryVector = embedder.embed(query.text);
+  const { conditions, params } = queryConditions(query);
+
+  const rows = db.prepare(`
+    SELECT m.id, m.timestamp, m.type, m.topic, m.content, m.rating, m.tags, m.file_path,
+           m.importance, m.stability, m.access_count, m.archived, e.vector
+    FROM memories m
+    JOIN memory_embeddings e ON e.memory_id = m.id
+    WHERE e.model = ?
+      AND ${conditions.join("\n      AND ")}
+  `).all(embedder.name, ...params) as any[];
+
+  const matches = rows
+    .map(({ vector, ...row }) => ({ ...row, similarity: cosineSimilarity(queryVector, blobToVector(vector)) }))
+    .filter((row) => row.similarity > 0);
+
+  return rankByStrength(matches, (row) => row.similarity).slice(0, limit);
+}
+
+// Memories still above the threshold that will fall below it within `days`
+function getDecayReport(db: Database, threshold: number, days: number): any[] {
+  const rows = db.prepare(`
+    SELECT id, timestamp, type, topic, file_path, rating, importance, stability, access_count
+    FROM memories
+    WHERE archived = 0
+      AND id NOT IN (SELECT alias_id FROM memory_aliases)
+  `).all() as any[];
+
+  const now = new Date();
+  return rows
+    .map((row) => ({
+      ...row,
+      strength: computeStrength(row, now),
+      days_left: daysUntilBelow(row, threshold, now),
+    }))
+    .filter((row) => row.strength >= threshold && row.days_left <= days)
+    .sort((a, b) => a.days_left - b.days_left);
+}
+
+// Fuse full-text (BM25) and semantic rankings with reciprocal rank fusion
+function hybridSearch(db: Database, query: CompiledQuery, limit: number = 20): any[] {
+  const candidates = limit * 3;
+  const fullText = searchMemories(db, query, candidates);
+  const semantic = semanticSearch(db, query, candidates);
+
+  const byId = new Map<string, any>();
+  for (const row of [...fullText, ...semantic]) {
+    byId.set(row.id, { ...byId.get(row.id), ...row });
+  }
+
+  const fused = reciprocalRankFusion([fullText.map((r) => r.id), semantic.map((r) => r.id)]);
+  return [...fused.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id, score]) => ({ ...byId.get(id), fused_score: score }));
+}
+
+// In-memory index of the encrypted memories, decrypted with the unlocked
+// key, so they can be searched like the rest. Nothing decrypted is written
+// to disk. Returns null (and says so) while locked.
+function openUnlockedIndex(db: Database): Database | null {
+  const key = getUnlockedKey(db);
+  if (!key) {
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM memories WHERE encrypted = 1").get() as any;
+    if (count > 0) {
+      console.error(`${colors.dim}${count} encrypted memories not searched (locked; run: unlock)${colors.reset}`);
+    }
+    return null;
+  }
+
+  const index = new Database(":memory:");
+  migrate(index, ":memory:");
+  const copyState = index.prepare(
+    "UPDATE memories SET access_count = ?, last_accessed = ?, archived = ?, archive_bundle = ? WHERE id = ?"
+  );
+  index.transaction(() => {
+    for (const memory of readSecrets(db, key)) {
+      insertMemory(index, memory as Memory);
+      copyState.run(memory.access_count, memory.last_accessed, memory.archived, memory.archive_bundle, memory.id);
+      writeChunks(index, memory.id, memory.content);
+    }
+  })();
+  updateEmbeddings(index, getEmbedder());
+  return index;
+}
+
+// A database to search and the profile its memories belong to
+interface SearchTarget {
+  profile: string;
+  db: Database;
+}
+
+// Databases a search covers: the active profile, its decrypted encrypted
+// memories while unlocked, and (opt-in) other profiles, read-only. Other
+// profiles' encrypted memories are never included.
+function searchTargets(db: Database, otherProfiles: string[]): SearchTarget[] {
+  const targets: SearchTarget[] = [{ profile: PROFILE, db }];
+  const unlocked = openUnlockedIndex(db);
+  if (unlocked) targets.push({ profile: PROFILE, db: unlocked });
+
+  for (const profile of otherProfiles) {
+    if (profile === PROFILE) continue;
+    const { dbPath } = profilePaths(profile);
+    if (!fs.existsSync(dbPath)) {
+      console.error(`${colors.dim}Profile ${profile} has no database yet (run: --profile ${profile} sync)${colors.reset}`);
+      continue;
+    }
+    const other = openReadOnly(dbPath);
+    if (getSchemaVersion(other) !== LATEST_VERSION) {
+      console.error(`${colors.yellow}⚠ Skipping profile ${profile}: schema is outdated (run: --profile ${profile} migrate)${colors.reset}`);
+      other.close();
+      continue;
+    }
+    targets.push({ profile, db: other });
+  }
+  return targets;
+}
+
+// Run a search on every target and keep the best results
+function searchAcross(targets: SearchTarget[], search: (db: Database) => any[], limit: number = 20): any[] {
+  const score = (row: any) => row.fused_score ?? row.score;
+  return targets
+    .flatMap(({ profile, db }) => search(db).map((row) => ({ ...row, profile })))
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit);
+}
+
+// --profiles a,b / --profiles all: other profiles to include in a search
+function parseProfilesFlag(args: string[]): string[] {
+  const value = flagValue(args, "--profiles");
+  if (value === undefined) return [];
+  const profiles = value === "all" ? listProfiles() : value.split(",").map((name) => name.trim()).filter(Boolean);
+  for (const profile of profiles) {
+    if (!isValidProfileName(profile) || !profileExists(profile)) {
+      console.error(`${colors.red}Error: unknown profile "${profile}" (see: profiles)${colors.reset}`);
+      process.exit(1);
+    }
+  }
+  return profiles;
+}
+
+// Search arguments without flags and their values
+function queryArgs(args: string[]): string {
+  return args
+    .filter((arg, i) => arg !== "--hybrid" && arg !== "--profiles" && args[i - 1] !== "--profiles")
+    .join(" ");
+}
+
+// Print search results in the standard format
+function printResults(results: any[], query: string): void {
+  console.log(`\n${colors.bold}Found ${results.length} results for "${query}"${colors.reset}\n`);
+
+  for (const result of results) {
+    const archived = result.archived ? ` ${colors.yellow}[archived]${colors.reset}` : "";
+    const profile = result.profile && result.profile !== PROFILE ? ` ${colors.magenta}[${result.profile}]${colors.reset}` : "";
+    console.log(`${colors.cyan}${result.topic}${colors.reset} ${colors.dim}(${result.type})${colors.reset}${archived}${profile}`);
+    console.log(`${colors.dim}  ${result.timestamp} | ${result.file_path}${colors.reset}`);
+    if (result.rating) {
+      console.log(`${colors.yellow}  Rating: ${result.rating}/10${colors.reset}`);
+    }
+    if (result.strength !== undefined) {
+      console.log(`${colors.dim}  Strength: ${result.strength.toFixed(2)}${colors.reset}`);
+    }
+    if (result.fused_score !== undefined) {
+      console.log(`${colors.dim}  RRF score: ${result.fused_score.toFixed(4)}${colors.reset}`);
+    } else if (result.similarity !== undefined) {
+      console.log(`${colors.dim}  Similarity: ${result.similarity.toFixed(3)}${colors.reset}`);
+    }
+    if (result.sections?.length > 0) {
+      for (const section of result.sections) {
+        const heading = section.heading_path || "(top of file)";
+        console.log(`  ${colors.magenta}§ ${heading}${colors.reset} ${colors.dim}${result.file_path}:${section.start_line}-${section.end_line}${colors.reset}`);
+        console.log(`    ${section.snippet.replace(/\s*\n\s*/g, " ")}`);
+      }
+    } else {
+      console.log(`${colors.dim}  ${result.content.slice(0, 200)}...${colors.reset}`);
+    }
+    console.log("");
+  }
+}
+
+// A search result as a pai.memory-search record (see docs/output-schemas.md)
+function toSearchRecord(result: any): MemorySearchRecord {
+  const sections = (result.sections || []).map((section: any) => ({
+    heading: section.heading_path,
+    startLine: section.start_line,
+    endLine: section.end_line,
+    snippet: section.snippet.replace(/\s*\n\s*/g, " "),
+  }));
 
   return {
-    total: totalStmt.get() as any,
-    by_type: typeStmt.all() as any[],
-    ratings: ratingStmt.get() as any,
+    file: result.file_path,
+    context: sections[0]?.snippet ?? result.content.slice(0, 200),
+    relevance: result.fused_score ?? result.score,
+    timestamp: result.timestamp,
+    type: result.type,
+    id: result.id,
+    topic: result.topic,
+    rating: result.rating,
+    tags: (result.tags || "").split(/\s+/).map((tag: string) => tag.replace(/^#/, "")).filter(Boolean),
+    importance: result.importance,
+    stability: result.stability,
+    strength: result.strength ?? null,
+    archived: Boolean(result.archived),
+    sections,
+    profile: result.profile ?? PROFILE,
+  };
+}
+
+// Print search results as text, or as pai.memory-search JSON/NDJSON
+function outputResults(results: any[], query: string, mode: string, format: OutputFormat): void {
+  if (format === "text") {
+    printResults(results, query);
+    return;
+  }
+  writeRecords(format, "pai.memory-search", { query, mode }, results.map(toSearchRecord));
+}
+
+// migrate [--status|--dry-run]
+function runMigrateCommand(flags: string[]): void {
+  const db = openDatabase();
+  const current = getSchemaVersion(db);
+  const pending = getPendingMigrations(db);
+
+  if (flags.includes("--status") || flags.includes("--dry-run")) {
+    console.log(`\n${colors.bold}Schema version:${colors.reset} ${current} (latest ${LATEST_VERSION})`);
+    if (pending.length === 0) {
+      console.log(`${colors.green}✓ Schema is up to date${colors.reset}\n`);
+    } else {
+      const heading = flags.includes("--dry-run") ? "Would apply" : "Pending";
+      console.log(`\n${colors.cyan}${heading}:${colors.reset}`);
+      for (const m of pending) {
+        console.log(`  ${m.version}. ${m.description}`);
+      }
+      console.log("");
+    }
+    db.close();
+    return;
+  }
+
+  const applied = migrate(db, DB_PATH);
+  for (const m of applied) {
+    console.log(`${colors.green}✓ Applied migration ${m.version}: ${m.description}${colors.reset}`);
+  }
+  if (applied.length === 0) {
+    console.log(`${colors.green}✓ Schema is up to date (version ${current})${colors.reset}`);
+  }
+  db.close();
+}
+
+// contention-check [--rounds N]: run sync, search and stats side by side
+// (as separate processes, like hooks and a watcher would) and fail if any of
+// them exits non-zero or reports SQLITE_BUSY
+async function runContentionCheck(flags: string[]): Promise<void> {
+  const roundsIndex = flags.indexOf("--rounds");
+  const rounds = roundsIndex >= 0 ? Number(flags[roundsIndex + 1]) : 3;
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    console.error(`${colors.red}Error: --rounds must be a positive whole number${colors.reset}`);
+    process.exit(1);
+  }
+
+  const commands = [["sync"], ["search", "memory"], ["stats", "--json"], ["search", "--json", "session"]];
+  let failures = 0;
+
+  await withWriteLock("contention-check", () => initDatabase().close());
+
+  console.log(`\n${colors.bold}Contention check${colors.reset} (${rounds} rounds, profile ${PROFILE})\n`);
+  for (let round = 1; round <= rounds; round++) {
+    // Make the sync rewrite every row, so it holds the write transaction
+    // for as long as a first sync would
+    await withWriteLock("contention-check", () => {
+      const db = openDatabase();
+      withBusyRetry(() => db.exec("UPDATE memories SET mtime = NULL, content_hash = NULL"));
+      db.close();
+    });
+
+    const started = Date.now();
+    const runs = commands.map((cmd) => {
+      const child = Bun.spawn([process.execPath, import.meta.path, "--profile", PROFILE, ...cmd], {
+        stdout: "pipe",
+        stderr: "pipe",
+        env: { ...process.env, NO_COLOR: "1" },
+      });
+      return Promise.all([child.exited, new Response(child.stdout).text(), new Response(child.stderr).text()]).then(
+        ([code, stdout, stderr]) => ({ cmd: cmd.join(" "), code, output: stdout + stderr })
+      );
+    });
+
+    for (const run of await Promise.all(runs)) {
+      const busy = /SQLITE_BUSY|database is locked/i.test(run.output);
+      const ok = run.code === 0 && !busy;
+      if (!ok) failures++;
+      const mark = ok ? `${colors.green}✓` : `${colors.red}✗`;
+      const detail = busy ? " (SQLITE_BUSY)" : run.code !== 0 ? ` (exit ${run.code})` : "";
+      console.log(`  ${mark} round ${round}: ${run.cmd}${detail}${colors.reset}`);
+      if (!ok) console.log(run.output.trim().replace(/^/gm, "      "));
+    }
+    console.log(`${colors.dim}  round ${round} took ${Date.now() - started}ms${colors.reset}`);
+  }
+
+  if (failures > 0) {
+    console.log(`\n${colors.red}✗ ${failures} runs failed${colors.reset}\n`);
+    process.exit(1);
+  }
+  console.log(`\n${colors.green}✓ No SQLITE_BUSY errors${colors.reset}\n`);
+}
+
+// watch --status: report whether a watcher is keeping memory.db fresh
+function printWatchStatus(): void {
+  const status = readWatchStatus();
+  if (!status) {
+    console.log(`${colors.yellow}No watcher has run (${WATCH_STATUS_FILE} not found)${colors.reset}`);
+    return;
+  }
+
+  const alive = isWatchAlive(status);
+  const state = alive
+    ? `${colors.green}running${colors.reset} (pid ${status.pid})`
+    : status.state === "running"
+      ? `${colors.red}not responding${colors.reset} (pid ${status.pid}, last heartbeat ${status.heartbeatAt})`
+      : `${colors.yellow}stopped${colors.reset} at ${status.stoppedAt}`;
+  console.log(`\n${colors.bold}Memory watcher:${colors.reset} ${state}`);
+  console.log(`  Started: ${status.startedAt}`);
+  console.log(`  Last sync: ${status.lastSyncAt ?? "never"}`);
+  console.log(
+    `  Batches: ${status.totals.batches} (${status.totals.added} added, ` +
+      `${status.totals.updated} updated, ${status.totals.removed} removed)`
+  );
+  for (const root of status.roots) console.log(`  ${colors.dim}Watching ${root}${colors.reset}`);
+  if (status.lastError) console.log(`  ${colors.red}Last error: ${status.lastError}${colors.reset}`);
+  console.log("");
+}
+
+// watch: keep memory.db in sync with the sources until SIGINT/SIGTERM.
+// Resolves once the watcher has shut down.
+async function runWatchCommand(db: Database, args: string[]): Promise<void> {
+  const debounceMs = parseInt(flagValue(args, "--debounce") || String(DEFAULT_DEBOUNCE_MS));
+  const resyncMinutes = parseFloat(flagValue(args, "--resync") || String(DEFAULT_RESYNC_MINUTES));
+  const heartbeatMs = parseInt(flagValue(args, "--heartbeat") || String(DEFAULT_HEARTBEAT_MS / 1000)) * 1000;
+  if ([debounceMs, resyncMinutes, heartbeatMs].some((n) => isNaN(n) || n < 0) || heartbeatMs === 0) {
+    console.error(`${colors.red}Error: --debounce, --resync and --heartbeat must be positive numbers${colors.reset}`);
+    process.exit(1);
+  }
+
+  const previous = readWatchStatus();
+  if (previous && previous.pid !== process.pid && isWatchAlive(previous)) {
+    console.error(`${colors.red}Error: a watcher is already running (pid ${previous.pid})${colors.reset}`);
+    process.exit(1);
+  }
+
+  const sources = loadMemorySources();
+  const { roots, missing } = watchRoots(sources);
+  for (const root of missing) {
+    console.error(`${colors.yellow}⚠ Not watching ${root}: directory does not exist${colors.reset}`);
+  }
+
+  // Catch up on changes made while nobody was watching. The writer lock is
+  // only held while a sync runs, so other writers can get in between.
+  await withWriteLock("watch", () => syncAllMemories(db));
+
+  const now = () => new Date().toISOString();
+  const status: WatchStatus = {
+    state: "running",
+    pid: process.pid,
+    startedAt: now(),
+    heartbeatAt: now(),
+    heartbeatMs,
+    stoppedAt: null,
+    lastSyncAt: now(),
+    roots,
+    missing,
+    totals: { batches: 0, added: 0, updated: 0, removed: 0 },
+    lastError: null,
+  };
+  writeWatchStatus(status);
+
+  // Batches and resyncs run one at a time, in order
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => {
+      status.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`${colors.red}✗ ${status.lastError}${colors.reset}`);
+      writeWatchStatus(status);
+    });
+  };
+
+  const applyBatch = (paths: string[]) =>
+    enqueue(async () => {
+      const report = await withWriteLock("watch", () => syncPaths(db, sources, paths));
+      status.totals.batches++;
+      status.totals.added += report.added;
+      status.totals.updated += report.updated;
+      status.totals.removed += report.removed;
+      status.lastSyncAt = now();
+      writeWatchStatus(status);
+      if (report.added + report.updated + report.removed > 0) {
+        console.log(
+          `${colors.dim}[${status.lastSyncAt}]${colors.reset} ${colors.green}✓ ${report.added} added, ` +
+            `${report.updated} updated, ${report.removed} removed${colors.reset}`
+        );
+      }
+      if (report.locked > 0) {
+        console.log(
+          `${colors.dim}[${status.lastSyncAt}]${colors.reset} ${colors.yellow}⚠ ${report.locked} sensitive files ` +
+            `waiting for unlock${colors.reset}`
+        );
+      }
+    });
+
+  const watcher = watchPaths(roots, debounceMs, applyBatch, (error) => {
+    status.lastError = error.message;
+    console.error(`${colors.red}✗ Watch error: ${error.message}${colors.reset}`);
+  });
+
+  const heartbeat = setInterval(() => {
+    status.heartbeatAt = now();
+    writeWatchStatus(status);
+  }, heartbeatMs);
+
+  // fs.watch can drop events (e.g. on queue overflow); a periodic
+  // incremental sync catches anything missed
+  const resync =
+    resyncMinutes > 0
+      ? setInterval(
+          () =>
+            enqueue(async () => {
+              await withWriteLock("watch", () => syncAllMemories(db));
+              status.lastSyncAt = now();
+              writeWatchStatus(status);
+            }),
+          resyncMinutes * 60 * 1000
+        )
+      : null;
+
+  console.log(`${colors.bold}Watching ${roots.length} directories${colors.reset} ${colors.dim}(Ctrl-C to stop)${colors.reset}`);
+  for (const root of roots) console.log(`${colors.dim}  ${root}${colors.reset}`);
+
+  await new Promise<void>((resolve) => {
+    let stopping = false;
+    const shutdown = async (signal: string) => {
+      if (stopping) return;
+      stopping = true;
+      console.log(`\n${colors.dim}${signal} received, stopping watcher...${colors.reset}`);
+
+      clearInterval(heartbeat);
+      if (resync) clearInterval(resync);
+      const pending = watcher.close();
+      if (pending.length > 0) applyBatch(pending);
+      await queue;
+
+      status.state = "stopped";
+      status.stoppedAt = now();
+      writeWatchStatus(status);
+      console.log(`${colors.green}✓ Watcher stopped${colors.reset}`);
+      resolve();
+    };
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+  });
+}
+
+// Report sensitive values still in the index and the redactions recorded at
+// sync time. --fix re-indexes leaking memories so the current rules apply.
+async function runScanCommand(db: Database, args: string[]): Promise<void> {
+  const redactor = getRedactor();
+  const leaks = scanMemories(db, redactor);
+
+  if (leaks.length === 0) {
+    console.log(`${colors.green}✓ No sensitive values found in indexed content${colors.reset}`);
+  } else {
+    const memories = new Set(leaks.map((leak) => leak.memory_id));
+    console.log(`\n${colors.bold}${leaks.length} sensitive values in ${memories.size} memories${colors.reset}\n`);
+    for (const leak of leaks) {
+      const archived = leak.archived ? ` ${colors.dim}(archived)${colors.reset}` : "";
+      console.log(
+        `  ${colors.red}${leak.kind.padEnd(16)}${colors.reset} ${colors.cyan}${leak.file_path}:${leak.line}${colors.reset}` +
+          ` ${colors.dim}${leak.preview} ${leak.fingerprint}${colors.reset}${archived}`
+      );
+    }
+  }
+
+  const summary = getRedactionSummary(db);
+  if (summary.length > 0) {
+    console.log(`\n${colors.bold}Redacted at sync time:${colors.reset}`);
+    for (const row of summary) {
+      console.log(`  ${row.kind.padEnd(16)} ${String(row.count).padStart(5)} ${colors.dim}in ${row.memories} memories${colors.reset}`);
+    }
+  }
+  console.log();
+
+  if (leaks.length === 0) return;
+  if (!args.includes("--fix")) {
+    console.log(`${colors.dim}Re-index leaking memories with: bun MemoryDatabase.ts scan --fix${colors.reset}`);
+    return;
+  }
+  if (!redactor.config.enabled) {
+    console.error(`${colors.red}Error: redaction is disabled in ${REDACTION_FILE}${colors.reset}`);
+    process.exit(1);
+  }
+
+  // Archived memories have no source file to re-read; they stay as they are
+  const ids = [...new Set(leaks.filter((leak) => !leak.archived).map((leak) => leak.memory_id))];
+  const reset = db.prepare("UPDATE memories SET mtime = NULL, content_hash = NULL WHERE id = ?");
+  for (const id of ids) reset.run(id);
+  await syncAllMemories(db);
+
+  const remaining = scanMemories(db, redactor).length;
+  const color = remaining > 0 ? colors.yellow : colors.green;
+  console.log(`${color}✓ Re-indexed ${ids.length} memories; ${remaining} sensitive values remain${colors.reset}`);
+}
+
+// Re-read a memory's file and index it afresh, overrides included.
+// Returns false if the file is gone or no longer belongs to a source.
+function reindexMemory(db: Database, id: string, filePath: string): boolean {
+  if (!fs.existsSync(filePath)) return false;
+  const match = matchSourceFile(loadMemorySources(), filePath).find((file) => file.id === id);
+  if (!match) return false;
+
+  const report: SyncReport = { added: 0, updated: 0, removed: 0, unchanged: 0, redacted: 0, locked: 0 };
+  db.prepare("UPDATE memories SET mtime = NULL, content_hash = NULL WHERE id = ?").run(id);
+  syncFile(db, report, new Map(), id, filePath, match.source, getUnlockedKey(db));
+  return report.locked === 0;
+}
+
+function getMemoryRow(db: Database, id: string): any {
+  const row = db.prepare("SELECT * FROM memories WHERE id = ?").get(id);
+  if (!row) {
+    console.error(`${colors.red}Error: No memory with id ${id}${colors.reset}`);
+    process.exit(1);
+  }
+  return row;
+}
+
+// Overrides from the command line, or exit with the parse error
+function overridesFromArgs(args: string[]): MemoryOverrides {
+  try {
+    return parseOverrideFlags(args);
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    process.exit(1);
+  }
+}
+
+function checkEncryptedOverrides(encrypted: boolean, overrides: MemoryOverrides): void {
+  const fields = ENCRYPTED_FIELDS.filter((field) => overrides[field] !== undefined);
+  if (encrypted && fields.length > 0) {
+    console.error(
+      `${colors.red}Error: ${fields.join(" and ")} of encrypted memories come from the file; edit the file instead${colors.reset}`
+    );
+    process.exit(1);
+  }
+}
+
+// insert <type> [file|-]: index a file in place if a source covers it,
+// otherwise write the content (file or stdin) to MEMORY/MANUAL
+async function runInsertCommand(db: Database, args: string[]): Promise<void> {
+  const type = args[0] as MemoryType;
+  if (!(MEMORY_TYPES as readonly string[]).includes(type)) {
+    console.error(`${colors.red}Error: Memory type must be one of ${MEMORY_TYPES.join(", ")}${colors.reset}`);
+    process.exit(1);
+  }
+  const overrides = overridesFromArgs(args);
+  const file = withoutOverrideFlags(args.slice(1)).find((arg) => !arg.startsWith("--"));
+  const sources = loadMemorySources();
+
+  let filePath: string;
+  let written = false;
+  if (file && file !== "-") {
+    filePath = path.resolve(file);
+    if (!fs.existsSync(filePath)) {
+      console.error(`${colors.red}Error: File not found: ${file}${colors.reset}`);
+      process.exit(1);
+    }
+    if (matchSourceFile(sources, filePath).length === 0) {
+      const content = fs.readFileSync(filePath, "utf-8");
+      filePath = writeManualFile(content, overrides.topic || parseLearning(content, filePath).title || path.basename(file, ".md"));
+      written = true;
+    }
+  } else {
+    const content = await Bun.stdin.text();
+    if (!content.trim()) {
+      console.error(`${colors.red}Error: No content on stdin${colors.reset}`);
+      process.exit(1);
+    }
+    filePath = writeManualFile(content, overrides.topic || parseLearning(content, "stdin.md").title || "memory");
+    written = true;
+  }
+
+  const [match] = matchSourceFile(sources, filePath);
+  const fail = (message: string): never => {
+    if (written) fs.rmSync(filePath, { force: true });
+    console.error(`${colors.red}Error: ${message}${colors.reset}`);
+    process.exit(1);
   };
+  if (!match) fail(`${toStoredPath(filePath)} is not covered by memory-sources.json (add the "manual" source)`);
+  checkEncryptedOverrides(Boolean(match.source.sensitive), overrides);
+  if (match.source.sensitive && !getUnlockedKey(db)) fail("the file belongs to a sensitive source; run unlock first");
+
+  if (type !== match.source.type) overrides.type = type;
+  withBusyRetry(() => db.exec("BEGIN IMMEDIATE"));
+  try {
+    clearTombstone(db, match.id);
+    reindexMemory(db, match.id, filePath);
+    if (Object.keys(overrides).length > 0) setOverrides(db, match.id, overrides);
+    if (args.includes("--pin")) setPinned(db, match.id, true);
+    resolveLinks(db);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+  updateEmbeddings(db, getEmbedder());
+
+  const where = written ? `written to ${toStoredPath(filePath)}` : toStoredPath(filePath);
+  console.log(`${colors.green}✓ Inserted ${match.id} (${where})${colors.reset}`);
+}
+
+function runShowCommand(db: Database, id: string): void {
+  const row = getMemoryRow(db, id);
+  const overrides = getOverrides(db, id);
+
+  let { topic, tags, content } = row;
+  if (row.encrypted) {
+    const key = getUnlockedKey(db);
+    const secret = key ? readSecrets(db, key).find((memory) => memory.id === id) : null;
+    if (secret) ({ topic, tags, content } = secret);
+    else content = `${colors.dim}🔒 Encrypted (unlock with: bun MemoryDatabase.ts unlock)${colors.reset}`;
+  }
+
+  const manual = (field: keyof MemoryOverrides) =>
+    overrides[field] !== undefined ? ` ${colors.magenta}(set by hand)${colors.reset}` : "";
+  const flags = [row.pinned ? "📌 pinned" : "", row.archived ? `archived (${row.archive_bundle})` : ""].filter(Boolean);
+
+  console.log(`\n${colors.bold}${topic}${colors.reset}${manual("topic")}${flags.length ? `  ${flags.join("  ")}` : ""}`);
+  console.log(`${colors.dim}${row.id}${colors.reset}\n`);
+  console.log(`  File:        ${colors.cyan}${row.file_path}${colors.reset}`);
+  console.log(`  Date:        ${row.timestamp}`);
+  console.log(`  Type:        ${row.type}${manual("type")}`);
+  console.log(`  Rating:      ${row.rating ?? "-"}${manual("rating")}`);
+  console.log(`  Tags:        ${tags || "-"}${manual("tags")}`);
+  console.log(`  Importance:  ${row.importance}${manual("importance")}`);
+  console.log(`  Stability:   ${row.stability}${manual("stability")}`);
+  console.log(`  Strength:    ${computeStrength(row, new Date()).toFixed(2)}`);
+  console.log(`\n${content}\n`);
+}
+
+// update <id>: set fields by hand, or --reset to go back to the file's values
+function runUpdateCommand(db: Database, args: string[]): void {
+  const id = args[0];
+  const row = getMemoryRow(db, id);
+  const overrides = overridesFromArgs(args);
+  const reset = args.includes("--reset");
+  if (!reset && Object.keys(overrides).length === 0) {
+    console.error(`${colors.red}Error: Nothing to update (see: bun MemoryDatabase.ts help)${colors.reset}`);
+    process.exit(1);
+  }
+  checkEncryptedOverrides(Boolean(row.encrypted), overrides);
+
+  withBusyRetry(() => db.exec("BEGIN IMMEDIATE"));
+  try {
+    if (reset) {
+      setOverrides(db, id, null);
+      if (!row.archived && !reindexMemory(db, id, resolveStoredPath(row.file_path))) {
+        console.log(`${colors.yellow}⚠ Could not re-read ${row.file_path}; fields keep their current values${colors.reset}`);
+      }
+    }
+    if (Object.keys(overrides).length > 0) setOverrides(db, id, overrides);
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+
+  const fields = Object.keys(getOverrides(db, id));
+  console.log(
+    `${colors.green}✓ Updated ${id}${colors.reset}` +
+      `${colors.dim} (set by hand: ${fields.length > 0 ? fields.join(", ") : "nothing"})${colors.reset}`
+  );
+}
+
+// delete <id>: drop the memory from the index. The file stays (and is not
+// indexed again) unless --remove-file is given.
+function runDeleteCommand(db: Database, args: string[]): void {
+  const id = args[0];
+  const row = getMemoryRow(db, id);
+  const removeFile = args.includes("--remove-file");
+
+  db.prepare("DELETE FROM memories WHERE id = ?").run(id);
+  if (removeFile) {
+    clearTombstone(db, id);
+    if (row.archived && row.archive_bundle) dropArchivedEntry(id, row.archive_bundle);
+    else fs.rmSync(resolveStoredPath(row.file_path), { force: true });
+    console.log(`${colors.green}✓ Deleted ${id} and ${row.archived ? "its archived copy" : row.file_path}${colors.reset}`);
+  } else {
+    addTombstone(db, id, row.file_path);
+    console.log(`${colors.green}✓ Deleted ${id}${colors.reset}`);
+    console.log(`${colors.dim}  ${row.file_path} was kept and will not be indexed again (re-add with: insert)${colors.reset}`);
+  }
+}
+
+// Check the database, source files and STATE files; with --repair, fix what
+// can be fixed safely and sync. The report is saved to integrity-state.json.
+async function runIntegrityCommand(db: Database, args: string[]): Promise<void> {
+  let report = await checkIntegrity(db);
+
+  if (args.includes("--repair") && report.issues.some((i) => i.repairable)) {
+    const issues = report.issues;
+    repairIntegrity(db, issues);
+    if (issues.some((i) => i.repairable && !i.repaired)) {
+      await syncAllMemories(db);
+    }
+    markRepaired(issues, (await checkIntegrity(db)).issues);
+    report = buildReport(issues);
+  }
+
+  writeIntegrityState(report);
+  printIntegrityReport(report);
+
+  const open = report.issues.filter((i) => !i.repaired);
+  if (!args.includes("--repair") && open.some((i) => i.repairable)) {
+    console.log(`${colors.dim}Fix what can be fixed safely with: bun MemoryDatabase.ts integrity --repair${colors.reset}`);
+  }
+  if (report.checks.sqlite === "error") {
+    console.log(
+      `${colors.dim}memory.db is damaged: export what you can, move memory.db aside and run sync${colors.reset}`
+    );
+  }
+  // Anything left unrepaired fails the command: 1 for errors, 2 for warnings only
+  if (report.status !== "ok") process.exitCode = report.status === "error" ? 1 : 2;
+}
+
+function printIntegrityReport(report: IntegrityReport): void {
+  const marks = {
+    ok: `${colors.green}✓${colors.reset}`,
+    warning: `${colors.yellow}⚠${colors.reset}`,
+    error: `${colors.red}✗${colors.reset}`,
+  };
+
+  console.log(`\n${colors.bold}Integrity check${colors.reset} ${colors.dim}(${report.dbPath})${colors.reset}\n`);
+  for (const check of INTEGRITY_CHECKS) {
+    const issues = report.issues.filter((i) => i.check === check);
+    const open = issues.filter((i) => !i.repaired).length;
+    const fixed = issues.length - open;
+    const detail = [open > 0 ? `${open} issues` : "", fixed > 0 ? `${fixed} repaired` : ""].filter(Boolean).join(", ");
+    console.log(`  ${marks[report.checks[check]]} ${check.padEnd(20)} ${colors.dim}${detail}${colors.reset}`);
+    for (const i of issues.slice(0, 10)) {
+      const state = i.repaired ? `${colors.green}repaired${colors.reset} ` : "";
+      console.log(`      ${state}${colors.dim}${i.message}${colors.reset}`);
+    }
+    if (issues.length > 10) {
+      console.log(`      ${colors.dim}... ${issues.length - 10} more in ${INTEGRITY_STATE_FILE}${colors.reset}`);
+    }
+  }
+  console.log();
+}
+
+// Derive the key for sensitive sources from the passphrase and cache it in the
+// runtime directory for --minutes (see MemoryCrypto.ts). The first unlock sets the passphrase.
+async function runUnlockCommand(db: Database, args: string[]): Promise<void> {
+  const minutes = parseFloat(flagValue(args, "--minutes") ?? String(DEFAULT_UNLOCK_MINUTES));
+  if (isNaN(minutes) || minutes <= 0) {
+    console.error(`${colors.red}Error: --minutes must be a positive number${colors.reset}`);
+    process.exit(1);
+  }
+
+  const first = !hasEncryptionKey(db);
+  const passphrase = await readPassphrase(first ? "New passphrase: " : "Passphrase: ");
+  if (!passphrase) {
+    console.error(`${colors.red}Error: empty passphrase${colors.reset}`);
+    process.exit(1);
+  }
+  if (first && process.stdin.isTTY && !process.env.PAI_MEMORY_PASSPHRASE) {
+    if ((await readPassphrase("Repeat passphrase: ")) !== passphrase) {
+      console.error(`${colors.red}Error: passphrases do not match${colors.reset}`);
+      process.exit(1);
+    }
+  }
+
+  const key = unlockKey(db, passphrase);
+  if (!key) {
+    console.error(`${colors.red}Error: wrong passphrase${colors.reset}`);
+    process.exit(1);
+  }
+
+  const expiresAt = cacheKey(key, minutes);
+  if (first) console.log(`${colors.green}✓ Passphrase set for encrypted sources${colors.reset}`);
+  console.log(`${colors.green}✓ Unlocked until ${expiresAt.toLocaleString()}${colors.reset}`);
+
+  if (loadMemorySources().some((source) => source.sensitive)) {
+    console.log(`${colors.dim}Run sync to index changed files of sensitive sources${colors.reset}`);
+  }
+}
+
+// profiles [create <name>]
+function runProfilesCommand(args: string[]): void {
+  if (args[0] === "create") {
+    const name = args[1];
+    if (!name) {
+      console.error(`${colors.red}Usage: bun MemoryDatabase.ts profiles create <name>${colors.reset}`);
+      process.exit(1);
+    }
+    try {
+      const paths = createProfile(name);
+      console.log(`${colors.green}✓ Created profile ${name} at ${paths.dir}${colors.reset}`);
+      console.log(`${colors.dim}  Sources: ${paths.sourcesFile}${colors.reset}`);
+      console.log(`${colors.dim}  Use it with --profile ${name} or PAI_MEMORY_PROFILE=${name}${colors.reset}`);
+    } catch (error) {
+      console.error(`${colors.red}Error: ${error instanceof Error ? error.message : error}${colors.reset}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  console.log(`\n${colors.bold}Profiles${colors.reset}\n`);
+  for (const name of listProfiles()) {
+    const paths = profilePaths(name);
+    const marker = name === PROFILE ? `${colors.green}*${colors.reset}` : " ";
+    let memories = "no database";
+    if (fs.existsSync(paths.dbPath)) {
+      const db = openReadOnly(paths.dbPath);
+      const hasTable = db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'memories'").get();
+      const count = hasTable ? (db.prepare("SELECT COUNT(*) AS count FROM memories").get() as any).count : 0;
+      memories = `${count} memories`;
+      db.close();
+    }
+    console.log(`${marker} ${colors.cyan}${name.padEnd(16)}${colors.reset} ${memories.padEnd(16)} ${colors.dim}${paths.memoryDir}${colors.reset}`);
+  }
+  console.log();
+}
+
+// Parse a search query, printing the error position on bad syntax
+function compileOrExit(query: string): CompiledQuery {
+  try {
+    return compileQuery(parseQuery(query));
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      console.error(`${colors.red}Error: ${formatQueryError(query, error)}${colors.reset}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// Value following a --flag, if present
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Flags of commands that refuse anything else, so a typo never runs them
+// with default settings: flags that take a value, switches, and whether
+// other arguments (e.g. report names) are allowed. --json/--ndjson and
+// --profile are handled for every command.
+const COMMAND_FLAGS: Record<string, { values: string[]; switches: string[]; positional?: boolean }> = {
+  archive: {
+    values: ["--older-than", "--max-strength", "--max-importance", "--max-stability", "--type"],
+    switches: ["--dry-run"],
+  },
+  stats: {
+    values: ["--period", "--periods", "--stale-days", "--top"],
+    switches: [],
+    positional: true,
+  },
+};
+
+// Exit with an error on an unknown flag, a flag without its value, or an
+// argument the command does not take
+function checkCommandFlags(command: string, args: string[]): void {
+  const flags = COMMAND_FLAGS[command];
+  if (!flags) return;
+  const known = [...flags.values, ...flags.switches];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("-")) {
+      if (flags.positional) continue;
+      console.error(`${colors.red}Error: ${command} takes no argument "${arg}"${colors.reset}`);
+      process.exit(1);
+    }
+    if (!known.includes(arg)) {
+      console.error(`${colors.red}Error: Unknown flag ${arg} for ${command} (use ${known.join(", ")})${colors.reset}`);
+      process.exit(1);
+    }
+    if (flags.values.includes(arg)) {
+      if (args[i + 1] === undefined) {
+        console.error(`${colors.red}Error: ${arg} needs a value${colors.reset}`);
+        process.exit(1);
+      }
+      i++;
+    }
+  }
 }
 
 // Main CLI handler
 async function main() {
-  const args = process.argv.slice(2);
+  const format = parseOutputFormat(process.argv.slice(2));
+  const args = withoutProfileFlag(withoutOutputFlags(process.argv.slice(2)));
   const command = args[0];
 
-  if (!command || command === "help") {
+  // --help anywhere shows the help instead of running the command
+  if (!command || command === "help" || args.includes("--help") || args.includes("-h")) {
     console.log(`
 ${colors.bold}PAI Memory Database${colors.reset}
 
 ${colors.cyan}COMMANDS:${colors.reset}
   init                 Initialize database with schema
-  sync                 Sync all MEMORY files to database
-  search <query>       Search memories (full-text search)
-  stats                Show database statistics
+  sync                 Sync all memory sources (memory-sources.json)
+  watch                Keep the database in sync as files change (until Ctrl-C)
+    --debounce <ms>    Wait for this long without changes before syncing (default ${DEFAULT_DEBOUNCE_MS})
+    --resync <min>     Full incremental sync interval, 0 to disable (default ${DEFAULT_RESYNC_MINUTES})
+    --heartbeat <sec>  Status file update interval (default ${DEFAULT_HEARTBEAT_MS / 1000})
+    --status           Show whether a watcher is running
+  insert <type> [file] Add a memory from a file, or from stdin (type: ${MEMORY_TYPES.join(", ")});
+                       files outside every source are written to MEMORY/MANUAL
+    --topic <T>        Topic (title)
+    --tags <a,b>       Tags
+    --importance <N>   Importance, 1-5
+    --stability <N>    Stability, 1-5
+    --rating <N>       Rating, 1-10
+    --pin              Pin it (see pin)
+  show <id>            Show a memory with its metadata
+  update <id>          Set fields by hand; they survive later syncs
+    --topic, --tags, --importance, --stability, --rating, --type <T>
+    --reset            Drop fields set by hand and re-read the file
+  delete <id>          Remove a memory from the index (the file is kept and skipped by sync)
+    --remove-file      Also delete its file (or archived copy)
+  pin <id>             Always include a memory in the session context
+  unpin <id>           Undo pin
+  search <query>       Search memories (full-text search with field filters)
+                       e.g. auth -draft type:learning tag:security rating>=7
+                       since:2026-09-01 importance:4..5 path:vault/*
+    --hybrid           Fuse full-text and semantic ranking (RRF)
+    --profiles <a,b>   Also search these profiles ("all" for every profile)
+    --json, --ndjson   Structured output (see docs/output-schemas.md)
+  semantic <query>     Search memories by meaning (offline embeddings)
+    --profiles <a,b>   Also search these profiles
+    --json, --ndjson   Structured output
+  decay-report         List memories about to fall below a strength threshold
+    --threshold <N>    Strength threshold, 0-1 (default ${DEFAULT_STRENGTH_THRESHOLD})
+    --days <N>         Look-ahead window in days (default 30)
+  links <id>           Show links from a memory
+  backlinks <id>       Show memories linking to a memory
+  orphans              List memories with no links in or out, and broken links
+  graph                Export the link graph
+    --format <F>       dot, graphml or json (default dot)
+    --out <file>       Write to a file instead of stdout
+  duplicates           List clusters of near-duplicate memories
+    --threshold <N>    Minimum similarity, 0-1 (default ${DEFAULT_DUPLICATE_THRESHOLD})
+    --type <TYPE>      Only compare memories of this type
+  merge <canonical> <duplicate...>
+                       Fold duplicates into a canonical memory (recorded as aliases)
+  archive              Move old, low-strength MEMORY files into monthly bundles
+    --older-than <N>   Minimum age in days (default ${DEFAULT_ARCHIVE_POLICY.olderThanDays})
+    --max-strength <N> Maximum current strength, 0-1 (default ${DEFAULT_ARCHIVE_POLICY.maxStrength})
+    --max-importance <N>  Maximum importance, 1-5 (default ${DEFAULT_ARCHIVE_POLICY.maxImportance})
+    --max-stability <N>   Maximum stability, 1-5 (default ${DEFAULT_ARCHIVE_POLICY.maxStability})
+    --type <TYPE>      Only archive memories of this type
+    --dry-run          List what would be archived
+  restore <id>         Write an archived memory back to its original file
+  export               Export memories and STATE files as versioned JSONL
+    --out <file>       Write to a file instead of stdout
+    --type <TYPE>      Only memories of this type
+    --tag <TAG>        Only memories with this tag
+    --since <DATE>     Only memories from this date (YYYY-MM-DD)
+    --until <DATE>     Only memories up to this date (YYYY-MM-DD)
+    --no-state         Leave out session-continuity.json and memory-index.json
+  import <file>        Write an export's files back to disk, then sync
+    --policy <P>       On conflict: skip, overwrite or newer (default skip)
+    --dry-run          Report what would be written
+  stats [report...]    Show database statistics (default: every report)
+                       Reports: ${STATS_REPORTS.join(", ")}
+    --period <P>       Growth and rating trend buckets: week or month (default ${DEFAULT_STATS_OPTIONS.period})
+    --periods <N>      Number of buckets (default ${DEFAULT_STATS_OPTIONS.periods})
+    --stale-days <N>   A source is stale after N days without changes (default ${DEFAULT_STATS_OPTIONS.staleDays})
+    --top <N>          Rows in the tag and largest-document reports (default ${DEFAULT_STATS_OPTIONS.top})
+    --json, --ndjson   Structured output
+  scan                 Find secrets and personal data in indexed content
+                       (rules: memory-redaction.json)
+    --fix              Re-index leaking memories with the current rules
+  integrity            Check the database, FTS indexes, source files and STATE files
+                       (report: STATE/integrity-state.json; exit 1 on errors, 2 on warnings)
+    --repair           Fix what can be fixed safely (rebuild FTS, sync, repair STATE files)
+  profiles             List memory profiles (* = active)
+  profiles create <name>
+                       Create a profile with its own sources, database and STATE
+  unlock               Cache the key for sensitive sources (asks for the passphrase,
+                       or reads PAI_MEMORY_PASSPHRASE); the first unlock sets it
+    --minutes <N>      Keep the key for N minutes (default ${DEFAULT_UNLOCK_MINUTES})
+  lock                 Forget the cached key
+  migrate              Apply pending schema migrations
+    --status           Show schema version and pending migrations
+    --dry-run          List migrations that would be applied
+  contention-check     Run sync, search and stats in parallel and report SQLITE_BUSY errors
+    --rounds <N>       Number of rounds (default 3)
   help                 Show this help message
 
+${colors.cyan}PROFILES:${colors.reset}
+  --profile <name>     Use a profile's sources, database and STATE (default: PAI_MEMORY_PROFILE,
+                       else "${DEFAULT_PROFILE}"); active: ${PROFILE}
+
 ${colors.cyan}EXAMPLES:${colors.reset}
   bun MemoryDatabase.ts init
   bun MemoryDatabase.ts sync
+  bun MemoryDatabase.ts watch --debounce 1000
+  bun MemoryDatabase.ts watch --status
+  echo "# Deploys need the VPN" | bun MemoryDatabase.ts insert learning --tags ops --importance 5 --pin
+  bun MemoryDatabase.ts update algo_2026-10_2026-10-18-101500_LEARNING_api-auth --importance 5
   bun MemoryDatabase.ts search "project proposal"
+  bun MemoryDatabase.ts search 'rate-limit OR "refresh token" type:learning rating>=7'
+  bun MemoryDatabase.ts search --hybrid "login token expiry"
+  bun MemoryDatabase.ts semantic "login token expiry"
+  bun MemoryDatabase.ts search --ndjson "tag:security" | jq -r .file
   bun MemoryDatabase.ts stats
+  bun MemoryDatabase.ts stats growth ratings --period month --periods 6
+  bun MemoryDatabase.ts decay-report --threshold 0.3 --days 14
+  bun MemoryDatabase.ts backlinks vault_project_alpha
+  bun MemoryDatabase.ts graph --format graphml --out memories.graphml
+  bun MemoryDatabase.ts duplicates --threshold 0.8 --type learning
+  bun MemoryDatabase.ts archive --older-than 365 --max-strength 0.2 --dry-run
+  bun MemoryDatabase.ts restore algo_2025-01_2025-01-14-093012_LEARNING_retry-logic
+  bun MemoryDatabase.ts export --type learning --tag security --out security.jsonl
+  bun MemoryDatabase.ts import security.jsonl --policy newer
+  bun MemoryDatabase.ts scan --fix
+  bun MemoryDatabase.ts integrity --repair
+  bun MemoryDatabase.ts unlock --minutes 120
+  bun MemoryDatabase.ts profiles create acme
+  bun MemoryDatabase.ts --profile acme sync
+  bun MemoryDatabase.ts --profile acme search "rate limit" --profiles personal
+  bun MemoryDatabase.ts migrate --status
+  bun MemoryDatabase.ts contention-check --rounds 5
     `);
     process.exit(0);
   }
 
-  const db = initDatabase();
+  if (command === "profiles") {
+    runProfilesCommand(args.slice(1));
+    return;
+  }
+
+  requireActiveProfile();
+
+  if (command === "contention-check") {
+    await runContentionCheck(args.slice(1));
+    return;
+  }
+
+  // Before the database is opened or locked
+  checkCommandFlags(command, args.slice(1));
+
+  // Readers use a read-only connection and never wait for the writer lock.
+  // Everything else holds the lock for the whole command, except watch,
+  // which takes it for each sync.
+  let db = isReadOnlyCommand(command, args) ? openReadOnlyDatabase() : null;
+  if (!db) {
+    const release = await acquireWriteLock(command, LOCK_TIMEOUT_MS, (owner) => {
+      console.error(`${colors.dim}Waiting for ${owner.command} (pid ${owner.pid}) to finish writing memory.db...${colors.reset}`);
+    });
+    if (command === "migrate") {
+      runMigrateCommand(args.slice(1));
+      return;
+    }
+    db = initDatabase();
+    if (command === "watch") release();
+  }
 
   switch (command) {
     case "init":
@@ -486,46 +1901,403 @@ ${colors.cyan}EXAMPLES:${colors.reset}
       await syncAllMemories(db);
       break;
 
+    case "insert":
+      await runInsertCommand(db, args.slice(1));
+      break;
+
+    case "show":
+    case "update":
+    case "delete":
+    case "pin":
+    case "unpin": {
+      const id = args[1];
+      if (!id) {
+        console.error(`${colors.red}Error: No memory id provided${colors.reset}`);
+        process.exit(1);
+      }
+      if (command === "show") runShowCommand(db, id);
+      else if (command === "update") runUpdateCommand(db, args.slice(1));
+      else if (command === "delete") runDeleteCommand(db, args.slice(1));
+      else {
+        getMemoryRow(db, id);
+        setPinned(db, id, command === "pin");
+        const note = command === "pin" ? "always shown in the session context" : "no longer pinned";
+        console.log(`${colors.green}✓ ${id}: ${note}${colors.reset}`);
+      }
+      break;
+    }
+
+    case "watch":
+      if (args.includes("--status")) {
+        printWatchStatus();
+      } else {
+        await runWatchCommand(db, args);
+      }
+      break;
+
     case "search": {
-      const query = args.slice(1).join(" ");
+      const hybrid = args.includes("--hybrid");
+      const profiles = parseProfilesFlag(args);
+      const query = queryArgs(args.slice(1));
       if (!query) {
         console.error(`${colors.red}Error: No search query provided${colors.reset}`);
         process.exit(1);
       }
 
-      const results = searchMemories(db, query);
-      console.log(`\n${colors.bold}Found ${results.length} results for "${query}"${colors.reset}\n`);
+      const compiled = compileOrExit(query);
+      if (hybrid && !compiled.text) {
+        console.error(`${colors.red}Error: --hybrid needs search terms, not only filters${colors.reset}`);
+        process.exit(1);
+      }
+      const results = searchAcross(searchTargets(db, profiles), (target) =>
+        hybrid ? hybridSearch(target, compiled) : searchMemories(target, compiled)
+      );
+      recordAccess(db, results.filter((result) => result.profile === PROFILE));
+      outputResults(results, query, hybrid ? "hybrid" : "fts", format);
+      break;
+    }
 
-      for (const result of results) {
-        console.log(`${colors.cyan}${result.topic}${colors.reset} ${colors.dim}(${result.type})${colors.reset}`);
-        console.log(`${colors.dim}  ${result.timestamp} | ${result.file_path}${colors.reset}`);
-        if (result.rating) {
-          console.log(`${colors.yellow}  Rating: ${result.rating}/10${colors.reset}`);
-        }
-        console.log(`${colors.dim}  ${result.content.slice(0, 200)}...${colors.reset}`);
+    case "semantic": {
+      const profiles = parseProfilesFlag(args);
+      const query = queryArgs(args.slice(1));
+      if (!query) {
+        console.error(`${colors.red}Error: No search query provided${colors.reset}`);
+        process.exit(1);
+      }
+
+      const compiled = compileOrExit(query);
+      if (!compiled.text) {
+        console.error(`${colors.red}Error: semantic search needs search terms, not only filters${colors.reset}`);
+        process.exit(1);
+      }
+      const results = searchAcross(searchTargets(db, profiles), (target) => semanticSearch(target, compiled));
+      recordAccess(db, results.filter((result) => result.profile === PROFILE));
+      outputResults(results, query, "semantic", format);
+      break;
+    }
+
+    case "decay-report": {
+      const threshold = parseFloat(flagValue(args, "--threshold") || String(DEFAULT_STRENGTH_THRESHOLD));
+      const days = parseInt(flagValue(args, "--days") || "30");
+      if (isNaN(threshold) || isNaN(days)) {
+        console.error(`${colors.red}Error: --threshold and --days must be numbers${colors.reset}`);
+        process.exit(1);
+      }
+
+      const report = getDecayReport(db, threshold, days);
+      console.log(
+        `\n${colors.bold}${report.length} memories will fall below strength ${threshold} within ${days} days${colors.reset}\n`
+      );
+      for (const row of report) {
+        console.log(`${colors.cyan}${row.topic}${colors.reset} ${colors.dim}(${row.type})${colors.reset}`);
+        console.log(`${colors.dim}  ${row.timestamp} | ${row.file_path}${colors.reset}`);
+        console.log(
+          `  Strength: ${row.strength.toFixed(2)} | ${colors.yellow}${Math.ceil(row.days_left)} days left${colors.reset}` +
+            ` | importance ${row.importance}, stability ${row.stability}`
+        );
         console.log("");
       }
       break;
     }
 
     case "stats": {
-      const stats = getStats(db);
-      console.log(`\n${colors.bold}Memory Database Statistics${colors.reset}\n`);
-      console.log(`${colors.cyan}Total memories:${colors.reset} ${stats.total.total}`);
-      console.log(`\n${colors.cyan}By type:${colors.reset}`);
-      for (const { type, count } of stats.by_type) {
-        console.log(`  ${type}: ${count}`);
-      }
-      if (stats.ratings.rated_count > 0) {
-        console.log(`\n${colors.cyan}Ratings:${colors.reset}`);
-        console.log(`  Average: ${stats.ratings.avg_rating.toFixed(1)}/10`);
-        console.log(`  Range: ${stats.ratings.min_rating}-${stats.ratings.max_rating}`);
-        console.log(`  Rated count: ${stats.ratings.rated_count}`);
+      const reports = args.slice(1).filter((a, i, all) => !a.startsWith("--") && !all[i - 1]?.startsWith("--"));
+      const unknown = reports.find((r) => !(STATS_REPORTS as readonly string[]).includes(r));
+      if (unknown) {
+        console.error(`${colors.red}Error: Unknown report "${unknown}". Use ${STATS_REPORTS.join(", ")}.${colors.reset}`);
+        process.exit(1);
+      }
+
+      const options: StatsOptions = {
+        period: (flagValue(args, "--period") as StatsPeriod) || DEFAULT_STATS_OPTIONS.period,
+        periods: parseInt(flagValue(args, "--periods") || String(DEFAULT_STATS_OPTIONS.periods)),
+        staleDays: parseInt(flagValue(args, "--stale-days") || String(DEFAULT_STATS_OPTIONS.staleDays)),
+        top: parseInt(flagValue(args, "--top") || String(DEFAULT_STATS_OPTIONS.top)),
+      };
+      if (options.period !== "week" && options.period !== "month") {
+        console.error(`${colors.red}Error: --period must be week or month${colors.reset}`);
+        process.exit(1);
+      }
+      if ([options.periods, options.staleDays, options.top].some((n) => isNaN(n) || n < 1)) {
+        console.error(`${colors.red}Error: --periods, --stale-days and --top must be positive numbers${colors.reset}`);
+        process.exit(1);
+      }
+
+      const selected = reports.length > 0 ? (reports as StatsReportName[]) : STATS_REPORTS;
+      const report = buildStatsReport(db, loadMemorySources(), selected, options);
+      if (format !== "text") {
+        // Summary fields stay at the top level, as in schema v1
+        const { summary, ...rest } = report;
+        writeDocument(format, "pai.memory-stats", { ...summary, ...rest });
+      } else {
+        console.log(formatStatsReport(report, options));
+      }
+      break;
+    }
+
+    case "scan":
+      await runScanCommand(db, args.slice(1));
+      break;
+
+    case "integrity":
+      await runIntegrityCommand(db, args.slice(1));
+      break;
+
+    case "unlock":
+      await runUnlockCommand(db, args.slice(1));
+      break;
+
+    case "lock":
+      console.log(
+        clearCachedKey()
+          ? `${colors.green}✓ Locked; encrypted memories are hidden until the next unlock${colors.reset}`
+          : `${colors.dim}Already locked${colors.reset}`
+      );
+      break;
+
+    case "links":
+    case "backlinks": {
+      const id = args[1];
+      if (!id) {
+        console.error(`${colors.red}Error: No memory id provided${colors.reset}`);
+        process.exit(1);
+      }
+      const memory = db.prepare("SELECT id, topic FROM memories WHERE id = ?").get(id) as any;
+      if (!memory) {
+        console.error(`${colors.red}Error: Memory not found: ${id}${colors.reset}`);
+        process.exit(1);
+      }
+
+      if (command === "links") {
+        const links = getOutgoingLinks(db, id);
+        console.log(`\n${colors.bold}${links.length} links from "${memory.topic}"${colors.reset}\n`);
+        for (const link of links) {
+          const target = link.target_id
+            ? `${colors.cyan}${link.target_topic}${colors.reset} ${colors.dim}(${link.target_id})${colors.reset}`
+            : `${colors.red}unresolved${colors.reset} ${link.target}`;
+          console.log(`  ${colors.dim}line ${link.line} [${link.kind}]${colors.reset} → ${target}`);
+        }
+      } else {
+        const links = getBacklinks(db, id);
+        console.log(`\n${colors.bold}${links.length} backlinks to "${memory.topic}"${colors.reset}\n`);
+        for (const link of links) {
+          console.log(
+            `  ${colors.cyan}${link.source_topic}${colors.reset} ${colors.dim}(${link.source_id}) ` +
+              `${link.file_path}:${link.line} [${link.kind}]${colors.reset}`
+          );
+        }
+      }
+      console.log("");
+      break;
+    }
+
+    case "orphans": {
+      const orphans = getOrphans(db);
+      console.log(`\n${colors.bold}${orphans.length} orphaned memories (no links in or out)${colors.reset}\n`);
+      for (const orphan of orphans) {
+        console.log(`  ${colors.cyan}${orphan.topic}${colors.reset} ${colors.dim}(${orphan.type}) ${orphan.id}${colors.reset}`);
+      }
+
+      const broken = getBrokenLinks(db);
+      if (broken.length > 0) {
+        console.log(`\n${colors.yellow}${broken.length} unresolved links:${colors.reset}`);
+        for (const link of broken) {
+          console.log(`  ${colors.dim}${link.source_id}:${link.line} [${link.kind}]${colors.reset} ${link.target}`);
+        }
+      }
+      console.log("");
+      break;
+    }
+
+    case "graph": {
+      const format = (flagValue(args, "--format") || "dot") as GraphFormat;
+      if (!["dot", "graphml", "json"].includes(format)) {
+        console.error(`${colors.red}Error: Invalid format "${format}". Use dot, graphml, or json.${colors.reset}`);
+        process.exit(1);
+      }
+
+      const output = formatGraph(getGraph(db), format);
+      const outFile = flagValue(args, "--out");
+      if (outFile) {
+        fs.writeFileSync(outFile, output + "\n", "utf-8");
+        console.log(`${colors.green}✓ Wrote ${format} graph to ${outFile}${colors.reset}`);
+      } else {
+        console.log(output);
+      }
+      break;
+    }
+
+    case "duplicates": {
+      const threshold = parseFloat(flagValue(args, "--threshold") || String(DEFAULT_DUPLICATE_THRESHOLD));
+      if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+        console.error(`${colors.red}Error: --threshold must be between 0 and 1${colors.reset}`);
+        process.exit(1);
+      }
+
+      const clusters = findDuplicates(db, { threshold, type: flagValue(args, "--type") });
+      console.log(`\n${colors.bold}${clusters.length} duplicate clusters (similarity ≥ ${threshold})${colors.reset}\n`);
+      for (const cluster of clusters) {
+        console.log(`${colors.yellow}Similarity ${cluster.similarity.toFixed(2)}${colors.reset} ${colors.dim}(${cluster.members.length} memories)${colors.reset}`);
+        for (const member of cluster.members) {
+          const marker = member.id === cluster.canonical ? `${colors.green}★${colors.reset}` : " ";
+          console.log(`  ${marker} ${colors.cyan}${member.topic}${colors.reset} ${colors.dim}${member.id}${colors.reset}`);
+        }
+        const duplicates = cluster.members.filter((m) => m.id !== cluster.canonical).map((m) => m.id);
+        console.log(`${colors.dim}  merge: bun MemoryDatabase.ts merge ${cluster.canonical} ${duplicates.join(" ")}${colors.reset}\n`);
+      }
+      break;
+    }
+
+    case "merge": {
+      const [canonicalId, ...duplicateIds] = args.slice(1);
+      if (!canonicalId || duplicateIds.length === 0) {
+        console.error(`${colors.red}Usage: bun MemoryDatabase.ts merge <canonical> <duplicate...>${colors.reset}`);
+        process.exit(1);
+      }
+
+      mergeMemories(db, canonicalId, duplicateIds);
+      console.log(`${colors.green}✓ Merged ${duplicateIds.length} duplicates into ${canonicalId}${colors.reset}`);
+      for (const alias of getAliases(db, canonicalId)) {
+        console.log(`${colors.dim}  alias: ${alias.alias_id} (${alias.file_path})${colors.reset}`);
+      }
+      break;
+    }
+
+    case "archive": {
+      const numberFlag = (flag: string, fallback: number): number => {
+        const value = flagValue(args, flag);
+        if (value === undefined) return fallback;
+        const parsed = parseFloat(value);
+        if (isNaN(parsed)) {
+          console.error(`${colors.red}Error: ${flag} must be a number${colors.reset}`);
+          process.exit(1);
+        }
+        return parsed;
+      };
+      const policy: ArchivePolicy = {
+        olderThanDays: numberFlag("--older-than", DEFAULT_ARCHIVE_POLICY.olderThanDays),
+        maxStrength: numberFlag("--max-strength", DEFAULT_ARCHIVE_POLICY.maxStrength),
+        maxImportance: numberFlag("--max-importance", DEFAULT_ARCHIVE_POLICY.maxImportance),
+        maxStability: numberFlag("--max-stability", DEFAULT_ARCHIVE_POLICY.maxStability),
+        type: flagValue(args, "--type"),
+      };
+
+      const candidates = selectArchiveCandidates(db, policy);
+      const dryRun = args.includes("--dry-run");
+      console.log(`\n${colors.bold}${candidates.length} memories ${dryRun ? "would be" : "will be"} archived${colors.reset}\n`);
+      for (const memory of candidates) {
+        console.log(
+          `  ${colors.cyan}${memory.topic}${colors.reset} ${colors.dim}${memory.timestamp.slice(0, 10)} ` +
+            `strength ${memory.strength.toFixed(2)} | ${memory.file_path}${colors.reset}`
+        );
+      }
+      if (!dryRun && candidates.length > 0) {
+        const archived = archiveMemories(db, candidates);
+        console.log(`\n${colors.green}✓ Archived ${archived} memories${colors.reset}`);
       }
       console.log("");
       break;
     }
 
+    case "restore": {
+      const id = args[1];
+      if (!id) {
+        console.error(`${colors.red}Error: No memory id provided${colors.reset}`);
+        process.exit(1);
+      }
+
+      const entry = restoreMemory(db, id);
+      clearTombstone(db, id);
+      console.log(`${colors.green}✓ Restored ${id} to ${entry.file_path}${colors.reset}`);
+      break;
+    }
+
+    case "export": {
+      const since = flagValue(args, "--since");
+      const until = flagValue(args, "--until");
+      for (const date of [since, until]) {
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          console.error(`${colors.red}Error: Invalid date "${date}". Use YYYY-MM-DD format.${colors.reset}`);
+          process.exit(1);
+        }
+      }
+
+      const records = exportMemories(
+        db,
+        { type: flagValue(args, "--type"), tag: flagValue(args, "--tag"), since, until },
+        !args.includes("--no-state")
+      );
+      const outFile = flagValue(args, "--out");
+      if (outFile) {
+        fs.writeFileSync(outFile, formatExport(records), "utf-8");
+        const memories = records.filter((r) => r.kind === "memory").length;
+        const state = records.filter((r) => r.kind === "state").length;
+        console.log(`${colors.green}✓ Exported ${memories} memories and ${state} state files to ${outFile}${colors.reset}`);
+      } else {
+        process.stdout.write(formatExport(records));
+      }
+
+      // On stderr, so an export written to stdout stays valid JSONL
+      const leftOut = (records[0] as ExportHeader).left_out ?? [];
+      if (leftOut.length > 0) {
+        console.error(`${colors.yellow}⚠ Left out ${leftOut.length} memories (listed in the header's left_out):${colors.reset}`);
+        for (const memory of leftOut) {
+          const why = memory.reason === "encrypted" ? "encrypted, sensitive sources are never exported" : "file missing";
+          console.error(`${colors.dim}  ${memory.id} (${why})${colors.reset}`);
+        }
+      }
+      break;
+    }
+
+    case "import": {
+      const file = args[1];
+      const policy = (flagValue(args, "--policy") || "skip") as ConflictPolicy;
+      if (!file) {
+        console.error(`${colors.red}Error: No export file provided${colors.reset}`);
+        process.exit(1);
+      }
+      if (!["skip", "overwrite", "newer"].includes(policy)) {
+        console.error(`${colors.red}Error: Invalid policy "${policy}". Use skip, overwrite, or newer.${colors.reset}`);
+        process.exit(1);
+      }
+
+      let records: ExportRecord[];
+      try {
+        records = readExport(file);
+      } catch (error) {
+        console.error(`${colors.red}Error: ${error instanceof Error ? error.message : error}${colors.reset}`);
+        process.exit(1);
+      }
+
+      const dryRun = args.includes("--dry-run");
+      const report = importRecords(records, policy, loadMemorySources(), { dryRun });
+      const verb = dryRun ? "Would write" : "Wrote";
+      console.log(`${colors.green}✓ ${verb} ${report.written} memories, skipped ${report.skipped} (policy: ${policy})${colors.reset}`);
+      if (report.rejected.length > 0) {
+        console.error(
+          `${colors.yellow}⚠ Rejected ${report.rejected.length} memories outside every source in memory-sources.json:${colors.reset}`
+        );
+        for (const memory of report.rejected) {
+          console.error(`${colors.dim}  ${memory.id} (${memory.file_path})${colors.reset}`);
+        }
+      }
+      if (report.state.length > 0) {
+        console.log(`${colors.green}✓ ${verb} ${report.state.join(", ")}${colors.reset}`);
+      }
+
+      if (!dryRun && report.written > 0) {
+        await syncAllMemories(db);
+        const applied = applyImportedMetadata(db, report.imported);
+        if (applied < report.written) {
+          console.log(
+            `${colors.yellow}⚠ ${report.written - applied} imported files were not indexed ` +
+              `(older than their source's recencyDays, or in a locked sensitive source)${colors.reset}`
+          );
+        }
+      }
+      break;
+    }
+
     default:
       console.error(`${colors.red}Unknown command: ${command}${colors.reset}`);
       console.log(`Run "bun MemoryDatabase.ts help" for usage information`);
@@ -0,0 +1,231 @@
+/**
+ * PAI Memory Duplicates
+ *
+ * Near-duplicate detection over the memories table using word shingles and
+ * MinHash with locality-sensitive hashing (LSH), plus the alias bookkeeping
+ * behind `MemoryDatabase.ts merge`.
+ *
+ * Candidate pairs come from LSH buckets and are then verified with the exact
+ * Jaccard similarity of their shingle sets, so reported scores are exact.
+ * Merged duplicates are recorded in memory_aliases; search and
+ * WeeklySynthesis skip them so the same learning is not counted twice.
+ */
+
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import { tokenize } from "./MemoryEmbeddings";
+import { computeStrength } from "./MemoryStrength";
+import { DB_PATH } from "./MemoryPaths";
+import { resolveStoredPath } from "./MemorySources";
+import { openReadOnly } from "./MemoryLock";
+
+const SHINGLE_SIZE = 3;
+const BANDS = 32;
+const ROWS_PER_BAND = 4;
+const NUM_HASHES = BANDS * ROWS_PER_BAND;
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.7;
+
+export interface DuplicateCluster {
+  canonical: string; // Suggested canonical memory (strongest)
+  members: { id: string; topic: string; file_path: string; strength: number }[];
+  similarity: number; // Highest pairwise similarity in the cluster
+}
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic hash function coefficients (xorshift PRNG)
+const COEFFICIENTS = (() => {
+  let state = 0x9e3779b9;
+  const next = () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return state >>> 0;
+  };
+  return Array.from({ length: NUM_HASHES }, () => ({ a: next() | 1, b: next() }));
+})();
+
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<number> {
+  const words = tokenize(text);
+  const result = new Set<number>();
+  if (words.length < size) {
+    if (words.length > 0) result.add(hashString(words.join(" ")));
+    return result;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(hashString(words.slice(i, i + size).join(" ")));
+  }
+  return result;
+}
+
+export function minhashSignature(shingleSet: Set<number>): Uint32Array {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingleSet) {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const { a, b } = COEFFICIENTS[i];
+      const value = (Math.imul(a, shingle) + b) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+export function jaccard(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let intersection = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const value of small) {
+    if (large.has(value)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+// Find clusters of near-duplicate memories at or above the threshold
+export function findDuplicates(
+  db: Database,
+  options: { threshold?: number; type?: string } = {}
+): DuplicateCluster[] {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const rows = db.prepare(`
+    SELECT id, topic, content, file_path, timestamp, importance, stability, rating, access_count
+    FROM memories
+    WHERE id NOT IN (SELECT alias_id FROM memory_aliases)
+      AND (?1 IS NULL OR type = ?1)
+  `).all(options.type ?? null) as any[];
+
+  const sets = rows.map((row) => shingles(row.content));
+
+  // LSH: memories sharing any band of their signature become candidates
+  const buckets = new Map<string, number[]>();
+  rows.forEach((_, index) => {
+    if (sets[index].size === 0) return;
+    const signature = minhashSignature(sets[index]);
+    for (let band = 0; band < BANDS; band++) {
+      const start = band * ROWS_PER_BAND;
+      const key = `${band}:${Array.from(signature.subarray(start, start + ROWS_PER_BAND)).join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  // Union-find over verified pairs
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const bestSimilarity = new Map<number, number>();
+  const checked = new Set<string>();
+
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pairKey = `${a}:${b}`;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        const similarity = jaccard(sets[a], sets[b]);
+        if (similarity < threshold) continue;
+
+        const [rootA, rootB] = [find(a), find(b)];
+        const best = Math.max(similarity, bestSimilarity.get(rootA) || 0, bestSimilarity.get(rootB) || 0);
+        parent[rootB] = rootA;
+        bestSimilarity.set(rootA, best);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  rows.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  const now = new Date();
+  const clusters: DuplicateCluster[] = [];
+  for (const [root, indexes] of groups) {
+    if (indexes.length < 2) continue;
+    const members = indexes
+      .map((i) => ({
+        id: rows[i].id,
+        topic: rows[i].topic,
+        file_path: rows[i].file_path,
+        strength: computeStrength(rows[i], now),
+      }))
+      .sort((a, b) => b.strength - a.strength);
+    clusters.push({ canonical: members[0].id, members, similarity: bestSimilarity.get(root) || threshold });
+  }
+
+  return clusters.sort((a, b) => b.similarity - a.similarity);
+}
+
+// Fold duplicates into a canonical memory. Aliases that pointed at a merged
+// duplicate are re-pointed at the new canonical memory.
+export function mergeMemories(db: Database, canonicalId: string, duplicateIds: string[]): void {
+  const exists = db.prepare("SELECT id, content, file_path, access_count FROM memories WHERE id = ?");
+  const canonical = exists.get(canonicalId) as any;
+  if (!canonical) throw new Error(`Memory not found: ${canonicalId}`);
+
+  const alias = db.prepare("SELECT canonical_id FROM memory_aliases WHERE alias_id = ?").get(canonicalId) as any;
+  if (alias) throw new Error(`${canonicalId} is itself merged into ${alias.canonical_id}`);
+
+  const canonicalShingles = shingles(canonical.content);
+
+  db.transaction(() => {
+    for (const duplicateId of duplicateIds) {
+      if (duplicateId === canonicalId) throw new Error("A memory cannot be merged into itself");
+      const duplicate = exists.get(duplicateId) as any;
+      if (!duplicate) throw new Error(`Memory not found: ${duplicateId}`);
+
+      db.prepare("UPDATE memory_aliases SET canonical_id = ? WHERE canonical_id = ?").run(canonicalId, duplicateId);
+      db.prepare(`
+        INSERT INTO memory_aliases (alias_id, canonical_id, file_path, similarity)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(alias_id) DO UPDATE SET
+          canonical_id = excluded.canonical_id,
+          similarity = excluded.similarity,
+          merged_at = CURRENT_TIMESTAMP
+      `).run(duplicateId, canonicalId, duplicate.file_path, jaccard(canonicalShingles, shingles(duplicate.content)));
+
+      // Accesses of the duplicate count towards the canonical memory
+      db.prepare("UPDATE memories SET access_count = access_count + ? WHERE id = ?").run(
+        duplicate.access_count || 0,
+        canonicalId
+      );
+    }
+  })();
+}
+
+export function getAliases(db: Database, canonicalId: string): any[] {
+  return db.prepare(`
+    SELECT alias_id, file_path, similarity, merged_at
+    FROM memory_aliases
+    WHERE canonical_id = ?
+    ORDER BY merged_at
+  `).all(canonicalId) as any[];
+}
+
+// Absolute paths of merged duplicates, for file-based tools. Empty when the
+// database does not exist yet.
+export function loadAliasedPaths(): Set<string> {
+  if (!fs.existsSync(DB_PATH)) return new Set();
+
+  const db = openReadOnly(DB_PATH);
+  try {
+    const rows = db.prepare("SELECT file_path FROM memory_aliases").all() as { file_path: string }[];
+    return new Set(rows.map((r) => resolveStoredPath(r.file_path)));
+  } catch {
+    // Older schema without memory_aliases
+    return new Set();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * PAI Memory Embeddings
+ *
+ * Offline vector embeddings for semantic search in MemoryDatabase.ts.
+ *
+ * The built-in embedder hashes word unigrams, word bigrams and character
+ * trigrams into a fixed-size vector (the "hashing trick"). It needs no
+ * network, GPU or training step, and it tolerates inflections ("expire" /
+ * "expiry") through shared trigrams. To use a local model instead, implement
+ * the Embedder interface and register it in EMBEDDERS.
+ */
+
+import type { Embedder } from "./types/memory";
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "were", "with",
+]);
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 2 && !STOPWORDS.has(w));
+}
+
+export class HashedNgramEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(readonly dimensions: number = 512) {
+    this.name = `hashed-ngram-${dimensions}`;
+  }
+
+  embed(text: string): Float32Array {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    const words = tokenize(text);
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]}_${word}`, 0.5);
+
+      const padded = `<${word}>`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.3);
+      }
+    }
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, count] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * Math.log1p(count);
+    }
+
+    return normalize(vector);
+  }
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// Available embedders, selected with PAI_MEMORY_EMBEDDER
+export const EMBEDDERS: Record<string, () => Embedder> = {
+  "hashed-ngram": () => new HashedNgramEmbedder(),
+};
+
+export function getEmbedder(name: string = process.env.PAI_MEMORY_EMBEDDER || "hashed-ngram"): Embedder {
+  const factory = EMBEDDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown embedder "${name}". Available: ${Object.keys(EMBEDDERS).join(", ")}`);
+  }
+  return factory();
+}
+
+// Cosine similarity of two L2-normalized vectors
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+export function vectorToBlob(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Uint8Array): Float32Array {
+  // Copy so the Float32Array is correctly aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+// Reciprocal rank fusion: score(id) = sum over lists of 1 / (k + rank)
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+  return scores;
+}
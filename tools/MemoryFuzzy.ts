@@ -0,0 +1,362 @@
+/**
+ * PAI Memory Fuzzy Matching
+ *
+ * `MemorySearch.ts --fuzzy`: a query term also matches
+ *
+ *   - stem     words with the same English stem (Porter), so "deploying"
+ *              finds "deployment" and "deploys"
+ *   - typo     words whose stem is within a small edit distance (one edit
+ *              for terms of 6-9 letters, two for longer ones, none below)
+ *   - synonym  the other names in its group in memory-synonyms.txt, e.g.
+ *              k8s = kubernetes, or project code names
+ *
+ * Fuzzy matching works on whole words. Phrases match as written or through
+ * a synonym; terms with punctuation ("c++") match literally.
+ */
+
+import * as fs from "fs";
+import { profileConfigFile } from "./MemoryPaths";
+import {
+  evaluateText,
+  leafSource,
+  escapeRegExp,
+  requireIncludedTerm,
+  textLeaves,
+  countMatches,
+} from "./MemoryQuery";
+import type { QueryNode, TextLeaf, TextMatcher } from "./MemoryQuery";
+import type { TermExpansion } from "./types/memory";
+
+export const SYNONYMS_FILE = process.env.PAI_MEMORY_SYNONYMS || profileConfigFile("memory-synonyms.txt");
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+const SINGLE_WORD = /^[\p{L}\p{N}_]+$/u;
+
+// Porter stemmer (M.F. Porter, 1980), with step 1c from Porter2
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ("aeiou".includes(ch)) return false;
+  if (ch === "y") return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+// Number of vowel-consonant sequences: [C](VC){m}[V]
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) if (!isConsonant(stem, i)) return true;
+  return false;
+}
+
+function endsDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y
+function endsCvc(word: string): boolean {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(word[n - 1])
+  );
+}
+
+// Replace the first matching suffix if the remaining stem has m > minMeasure
+function replaceSuffix(word: string, rules: [string, string][], minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    return measure(stem) > minMeasure ? stem + replacement : word;
+  }
+  return word;
+}
+
+const STEP2: [string, string][] = [
+  ["ational", "ate"], ["tional", "tion"], ["enci", "ence"], ["anci", "ance"], ["izer", "ize"],
+  ["abli", "able"], ["alli", "al"], ["entli", "ent"], ["eli", "e"], ["ousli", "ous"],
+  ["ization", "ize"], ["ation", "ate"], ["ator", "ate"], ["alism", "al"], ["iveness", "ive"],
+  ["fulness", "ful"], ["ousness", "ous"], ["aliti", "al"], ["iviti", "ive"], ["biliti", "ble"],
+];
+
+const STEP3: [string, string][] = [
+  ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"], ["ical", "ic"], ["ful", ""], ["ness", ""],
+];
+
+const STEP4 = [
+  "al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment", "ent",
+  "ion", "ou", "ism", "ate", "iti", "ous", "ive", "ize",
+];
+
+const stems = new Map<string, string>();
+
+// Porter stem of a lower-case word
+export function stem(word: string): string {
+  const cached = stems.get(word);
+  if (cached !== undefined) return cached;
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    stems.set(word, word);
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (!w.endsWith("ss") && w.endsWith("s")) w = w.slice(0, -1);
+
+  // Step 1b: -ed, -ing
+  let cleanup = false;
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else if (w.endsWith("ed") && hasVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    cleanup = true;
+  } else if (w.endsWith("ing") && hasVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    cleanup = true;
+  }
+  if (cleanup) {
+    if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) w += "e";
+    else if (endsDoubleConsonant(w) && !"lsz".includes(w[w.length - 1])) w = w.slice(0, -1);
+    else if (measure(w) === 1 && endsCvc(w)) w += "e";
+  }
+
+  // Step 1c: y -> i after a consonant, as in Porter2, so "deploying" and
+  // "deployment" share the stem "deploy"
+  if (w.length > 2 && w.endsWith("y") && isConsonant(w, w.length - 2)) w = w.slice(0, -1) + "i";
+
+  // Steps 2 and 3: double and single suffixes
+  w = replaceSuffix(w, STEP2, 0);
+  w = replaceSuffix(w, STEP3, 0);
+
+  // Step 4: remove suffixes where m > 1
+  for (const suffix of STEP4) {
+    if (!w.endsWith(suffix)) continue;
+    const base = w.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== "ion" || /[st]$/.test(base))) w = base;
+    break;
+  }
+
+  // Step 5: final e and double l
+  if (w.endsWith("e")) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCvc(base))) w = base;
+  }
+  if (measure(w) > 1 && endsDoubleConsonant(w) && w.endsWith("l")) w = w.slice(0, -1);
+
+  stems.set(word, w);
+  return w;
+}
+
+// Edit distance with transpositions (optimal string alignment); gives up and
+// returns max + 1 as soon as the distance must exceed max
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      row.push(d);
+      best = Math.min(best, d);
+    }
+    if (best > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed for a term: none for short words, where one edit already
+// turns "authz" into "auth"
+function typoBudget(term: string): number {
+  if (term.length < 6) return 0;
+  return term.length < 10 ? 1 : 2;
+}
+
+// memory-synonyms.txt: one group of equivalent names per line, separated by
+// = or commas ("k8s = kubernetes", "postgres, postgresql, pg"). # starts a
+// comment. Names are lower-cased; multi-word names are allowed.
+export function loadSynonyms(file: string = SYNONYMS_FILE): string[][] {
+  if (!fs.existsSync(file)) return [];
+
+  const groups: string[][] = [];
+  fs.readFileSync(file, "utf-8")
+    .split(/\r?\n/)
+    .forEach((line, i) => {
+      const text = line.replace(/#.*$/, "").trim();
+      if (!text) return;
+      const names = [...new Set(text.split(/[=,]/).map((name) => name.trim().toLowerCase().replace(/\s+/g, " ")))];
+      if (names.some((name) => !name) || names.length < 2) {
+        throw new Error(`${file}:${i + 1}: a line needs two or more names separated by = or commas`);
+      }
+      groups.push(names);
+    });
+  return groups;
+}
+
+// Other names for a term or phrase: groups containing it, or (for single
+// words) a name with the same stem
+function synonymsOf(value: string, groups: string[][]): string[] {
+  const name = value.trim().toLowerCase().replace(/\s+/g, " ");
+  const single = SINGLE_WORD.test(name);
+  const names = new Set<string>();
+  for (const group of groups) {
+    const member = group.some((other) => other === name || (single && SINGLE_WORD.test(other) && stem(other) === stem(name)));
+    if (!member) continue;
+    for (const other of group) if (other !== name) names.add(other);
+  }
+  return [...names];
+}
+
+// Whole-word regex source for a name ("continuous integration" allows any
+// whitespace between the words)
+function nameSource(name: string): string {
+  const body = name.split(" ").map(escapeRegExp).join("\\s+");
+  return `(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`;
+}
+
+interface FuzzyLeaf {
+  exact: RegExp; // The term or phrase as a whole word
+  source: string;
+  term: string | null; // Lower-case single word for stem/typo matching, else null
+  synonyms: { name: string; source: string; pattern: RegExp }[];
+}
+
+interface LeafHit {
+  sources: string[]; // Highlight sources for what matched
+  expansions: TermExpansion[];
+}
+
+// Compile a query to a matcher where terms also match their stems, typos
+// and synonyms. No SQL prefilter: what matches depends on the words in each
+// document.
+export function compileFuzzyMatcher(node: QueryNode, groups: string[][] = loadSynonyms()): TextMatcher {
+  requireIncludedTerm(node);
+
+  const leaves = new Map<TextLeaf, FuzzyLeaf>();
+  for (const { leaf } of textLeaves(node)) {
+    const source = leafSource(leaf, "word");
+    const value = leaf.value.trim().toLowerCase();
+    leaves.set(leaf, {
+      exact: new RegExp(source, "iu"),
+      source,
+      term: leaf.kind === "term" && !leaf.prefix && SINGLE_WORD.test(value) ? value : null,
+      synonyms: synonymsOf(leaf.value, groups).map((name) => {
+        const nameSrc = nameSource(name);
+        return { name, source: nameSrc, pattern: new RegExp(nameSrc, "iu") };
+      }),
+    });
+  }
+  const included = textLeaves(node)
+    .filter(({ negated }) => !negated)
+    .map(({ leaf }) => leaf);
+  // One leaf per term, for ranking
+  const terms = new Map<string, TextLeaf>();
+  for (const leaf of included) {
+    const key = leaf.value.trim().toLowerCase();
+    if (!terms.has(key)) terms.set(key, leaf);
+  }
+
+  // What each leaf matches in one document (the last one is cached, since
+  // matches() and expand() are called for the same content)
+  let cachedContent: string | null = null;
+  let cachedHits = new Map<TextLeaf, LeafHit | null>();
+
+  const analyze = (content: string): Map<TextLeaf, LeafHit | null> => {
+    if (content === cachedContent) return cachedHits;
+    const words = new Set((content.toLowerCase().match(WORD) ?? []) as string[]);
+    const hits = new Map<TextLeaf, LeafHit | null>();
+
+    for (const [leaf, fuzzy] of leaves) {
+      const hit: LeafHit = { sources: [], expansions: [] };
+      if (fuzzy.exact.test(content)) hit.sources.push(fuzzy.source);
+
+      if (fuzzy.term) {
+        const termStem = stem(fuzzy.term);
+        const budget = typoBudget(fuzzy.term);
+        for (const word of words) {
+          if (word === fuzzy.term) continue;
+          const wordStem = stem(word);
+          let kind: TermExpansion["kind"] | null = null;
+          if (wordStem === termStem) kind = "stem";
+          else if (budget > 0 && editDistance(wordStem, termStem, budget) <= budget) kind = "typo";
+          if (!kind) continue;
+          hit.sources.push(nameSource(word));
+          hit.expansions.push({ term: leaf.value, match: word, kind });
+        }
+      }
+
+      for (const synonym of fuzzy.synonyms) {
+        if (!synonym.pattern.test(content)) continue;
+        hit.sources.push(synonym.source);
+        hit.expansions.push({ term: leaf.value, match: synonym.name, kind: "synonym" });
+      }
+
+      hits.set(leaf, hit.sources.length > 0 ? hit : null);
+    }
+
+    cachedContent = content;
+    cachedHits = hits;
+    return hits;
+  };
+
+  return {
+    matches: (content) => {
+      const hits = analyze(content);
+      return evaluateText(node, (leaf) => hits.get(leaf) !== null);
+    },
+    pattern: null,
+    terms: [...terms.values()].map((leaf) => leaf.value),
+    prefilter: null,
+    termFilters: [...terms.values()].map(() => null),
+    count: (text) => {
+      const hits = analyze(text);
+      return [...terms.values()].map((leaf) => {
+        const hit = hits.get(leaf);
+        if (!hit) return 0;
+        const alternatives = [...new Set(hit.sources)].sort((a, b) => b.length - a.length);
+        return countMatches(text, new RegExp(alternatives.join("|"), "giu"));
+      });
+    },
+    expand: (content) => {
+      const hits = analyze(content);
+      const sources = new Set<string>();
+      const expansions = new Map<string, TermExpansion>();
+      for (const leaf of included) {
+        const hit = hits.get(leaf);
+        if (!hit) continue;
+        hit.sources.forEach((source) => sources.add(source));
+        for (const expansion of hit.expansions) expansions.set(`${expansion.term}\0${expansion.match}`, expansion);
+      }
+      // Longest first, so a phrase wins over a word inside it
+      const alternatives = [...sources].sort((a, b) => b.length - a.length);
+      return {
+        pattern: alternatives.length > 0 ? new RegExp(alternatives.join("|"), "giu") : null,
+        expansions: [...expansions.values()],
+      };
+    },
+  };
+}
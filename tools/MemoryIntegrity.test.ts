@@ -0,0 +1,44 @@
+/**
+ * Tests for the integrity command (MemoryIntegrity.ts through MemoryDatabase.ts)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import { createTestHome } from "./TestHome";
+import type { TestHome } from "./TestHome";
+
+const DIR = ".claude/MEMORY/LEARNING/ALGORITHM/2026-10";
+
+let home: TestHome;
+
+beforeEach(() => {
+  home = createTestHome();
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("integrity", () => {
+  test("fails while problems remain and passes once they are repaired", () => {
+    const gone = home.write(`${DIR}/2026-10-01-100000_LEARNING_gone.md`, "# Gone\n\nDeleted behind the index's back.\n");
+    home.write(`${DIR}/2026-10-02-100000_LEARNING_kept.md`, "# Kept\n\nStill here.\n");
+    expect(home.run("MemoryDatabase.ts", ["sync"]).code).toBe(0);
+    expect(home.run("MemoryDatabase.ts", ["integrity"]).code).toBe(0);
+
+    fs.rmSync(gone);
+    const check = home.run("MemoryDatabase.ts", ["integrity"]);
+    expect(check.code).toBe(2); // Warnings only
+    expect(check.stdout).toContain("file not found: MEMORY/LEARNING/ALGORITHM/2026-10/2026-10-01-100000_LEARNING_gone.md");
+
+    const repair = home.run("MemoryDatabase.ts", ["integrity", "--repair"]);
+    expect(repair.code).toBe(0);
+    expect(repair.stdout).toContain("repaired file not found");
+
+    const state = JSON.parse(fs.readFileSync(home.path(".claude/MEMORY/STATE/integrity-state.json"), "utf-8"));
+    expect(state.status).toBe("ok");
+    expect(home.run("MemoryDatabase.ts", ["integrity"]).code).toBe(0);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * PAI Memory Integrity
+ *
+ * Health checks behind `MemoryDatabase.ts integrity`, and the repairs that
+ * are safe to make without asking:
+ *
+ *   sqlite              PRAGMA integrity_check (reported only)
+ *   fts                 memories_fts / memory_chunks_fts match their tables (rebuilt)
+ *   missing-files       rows whose file is gone (removed by a sync)
+ *   unindexed-files     source files without a row, other than deleted ones
+ *                       (added by a sync)
+ *   session-continuity  STATE/session-continuity.json parses and has the
+ *                       CurrentWorkState fields (missing fields restored)
+ *   memory-index        STATE/memory-index.json parses and lists each week
+ *                       once (duplicates dropped, the latest run kept)
+ *   learnings           learning files parse cleanly (reported only)
+ *
+ * Every run writes its report to STATE/integrity-state.json. State files are
+ * never deleted: one that does not parse is moved aside to
+ * <file>.corrupt-<timestamp>, and one that is rewritten keeps its previous
+ * version as <file>.bak.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import * as fs from "fs";
+import { PROFILE, DB_PATH, STATE_DIR } from "./MemoryPaths";
+import { loadMemorySources, scanSource, resolveStoredPath } from "./MemorySources";
+import { getUnlockedKey } from "./MemoryCrypto";
+import { parseLearning } from "./LearningParser";
+
+export const INTEGRITY_STATE_FILE = path.join(STATE_DIR, "integrity-state.json");
+const SESSION_CONTINUITY_FILE = path.join(STATE_DIR, "session-continuity.json");
+const MEMORY_INDEX_FILE = path.join(STATE_DIR, "memory-index.json");
+
+export const INTEGRITY_CHECKS = [
+  "sqlite",
+  "fts",
+  "missing-files",
+  "unindexed-files",
+  "session-continuity",
+  "memory-index",
+  "learnings",
+] as const;
+export type IntegrityCheckName = (typeof INTEGRITY_CHECKS)[number];
+
+export type IntegrityStatus = "ok" | "warning" | "error";
+
+export interface IntegrityIssue {
+  check: IntegrityCheckName;
+  severity: "warning" | "error";
+  message: string;
+  target: string | null; // Memory id, file or table the issue is about
+  repairable: boolean; // --repair can fix it
+  repaired: boolean;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  profile: string;
+  dbPath: string;
+  status: IntegrityStatus; // Worst status of any check
+  checks: Record<IntegrityCheckName, IntegrityStatus>;
+  issues: IntegrityIssue[];
+  repaired: number; // Issues fixed by this run
+}
+
+// FTS indexes and the tables they index
+const FTS_TABLES = [
+  { fts: "memories_fts", table: "memories" },
+  { fts: "memory_chunks_fts", table: "memory_chunks" },
+];
+
+function issue(
+  check: IntegrityCheckName,
+  severity: IntegrityIssue["severity"],
+  message: string,
+  target: string | null,
+  repairable: boolean
+): IntegrityIssue {
+  return { check, severity, message, target, repairable, repaired: false };
+}
+
+function checkSqlite(db: Database): IntegrityIssue[] {
+  const rows = db.prepare("PRAGMA integrity_check").all() as { integrity_check: string }[];
+  return rows
+    .filter((row) => row.integrity_check !== "ok")
+    .map((row) => issue("sqlite", "error", row.integrity_check, path.basename(DB_PATH), false));
+}
+
+function checkFts(db: Database): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  for (const { fts, table } of FTS_TABLES) {
+    const rows = (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    const indexed = (db.prepare(`SELECT COUNT(*) AS n FROM ${fts}_docsize`).get() as { n: number }).n;
+    if (rows !== indexed) {
+      issues.push(issue("fts", "error", `${indexed} rows indexed for ${rows} rows in ${table}`, fts, true));
+      continue;
+    }
+    // A rank of 1 also compares an external-content index with its table
+    try {
+      db.exec(`INSERT INTO ${fts}(${fts}, rank) VALUES ('integrity-check', 1)`);
+    } catch (error: any) {
+      issues.push(issue("fts", "error", `index does not match ${table} (${error.message})`, fts, true));
+    }
+  }
+  return issues;
+}
+
+function checkMissingFiles(db: Database): IntegrityIssue[] {
+  // Archived memories live in ARCHIVE bundles, not at their file path
+  const rows = db.prepare("SELECT id, file_path FROM memories WHERE archived = 0").all() as {
+    id: string;
+    file_path: string;
+  }[];
+  return rows
+    .filter((row) => !fs.existsSync(resolveStoredPath(row.file_path)))
+    .map((row) => issue("missing-files", "warning", `file not found: ${row.file_path}`, row.id, true));
+}
+
+async function checkUnindexedFiles(db: Database): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [];
+  const exists = db.prepare("SELECT 1 FROM memories WHERE id = ?");
+  const tombstoned = db.prepare("SELECT 1 FROM memory_tombstones WHERE id = ?");
+  const locked = !getUnlockedKey(db);
+
+  for (const source of loadMemorySources()) {
+    for (const file of await scanSource(source)) {
+      if (exists.get(file.id) || tombstoned.get(file.id)) continue;
+      if (source.sensitive && locked) {
+        issues.push(issue("unindexed-files", "warning", `not indexed while locked: ${file.filePath}`, file.id, false));
+      } else {
+        issues.push(issue("unindexed-files", "warning", `not indexed: ${file.filePath}`, file.id, true));
+      }
+    }
+  }
+  return issues;
+}
+
+// Parsed JSON of a state file; undefined if the file does not exist
+function readStateFile(check: IntegrityCheckName, file: string, issues: IntegrityIssue[]): any {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    const value = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      issues.push(issue(check, "error", "not a JSON object", file, true));
+      return null;
+    }
+    return value;
+  } catch (error: any) {
+    issues.push(issue(check, "error", `invalid JSON (${error.message})`, file, true));
+    return null;
+  }
+}
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every((v) => typeof v === "string");
+
+function checkSessionContinuity(): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const state = readStateFile("session-continuity", SESSION_CONTINUITY_FILE, issues);
+  if (!state) return issues;
+
+  const problems: string[] = [];
+  if (!isStringArray(state.activeProjects)) problems.push("activeProjects is not a list of strings");
+  if (!Array.isArray(state.openItems)) {
+    problems.push("openItems is not a list");
+  } else {
+    const bad = state.openItems.filter((item: any) => typeof item?.description !== "string").length;
+    if (bad > 0) problems.push(`${bad} open items without a description`);
+  }
+  const last = state.lastSession;
+  if (typeof last !== "object" || last === null || typeof last.summary !== "string" || !isStringArray(last.nextSteps)) {
+    problems.push("lastSession is missing summary or nextSteps");
+  }
+  if (typeof state.lastUpdated !== "string") problems.push("lastUpdated is missing");
+
+  for (const problem of problems) {
+    issues.push(issue("session-continuity", "error", problem, SESSION_CONTINUITY_FILE, true));
+  }
+  return issues;
+}
+
+function checkMemoryIndex(): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const index = readStateFile("memory-index", MEMORY_INDEX_FILE, issues);
+  if (!index) return issues;
+
+  if (index.weeks !== undefined && !Array.isArray(index.weeks)) {
+    issues.push(issue("memory-index", "error", "weeks is not a list", MEMORY_INDEX_FILE, true));
+  } else {
+    const counts = new Map<string, number>();
+    for (const week of index.weeks ?? []) {
+      counts.set(week?.start, (counts.get(week?.start) ?? 0) + 1);
+    }
+    for (const [start, count] of counts) {
+      if (typeof start !== "string") {
+        issues.push(issue("memory-index", "error", `${count} week entries without a start date`, MEMORY_INDEX_FILE, true));
+      } else if (count > 1) {
+        issues.push(issue("memory-index", "warning", `week ${start} listed ${count} times`, MEMORY_INDEX_FILE, true));
+      }
+    }
+  }
+  if (index.patterns !== undefined && (typeof index.patterns !== "object" || Array.isArray(index.patterns))) {
+    issues.push(issue("memory-index", "error", "patterns is not an object", MEMORY_INDEX_FILE, true));
+  }
+  return issues;
+}
+
+async function checkLearnings(): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [];
+  for (const source of loadMemorySources().filter((s) => s.type === "learning")) {
+    for (const { filePath } of await scanSource(source)) {
+      let content: string;
+      try {
+        content = fs.readFileSync(filePath, "utf-8");
+      } catch (error: any) {
+        issues.push(issue("learnings", "error", `cannot read ${filePath} (${error.code ?? error.message})`, filePath, false));
+        continue;
+      }
+      const doc = parseLearning(content, filePath);
+      for (const warning of doc.warnings) {
+        issues.push(issue("learnings", "warning", `${path.basename(filePath)}: ${warning}`, filePath, false));
+      }
+    }
+  }
+  return issues;
+}
+
+function statusOf(issues: IntegrityIssue[]): IntegrityStatus {
+  if (issues.some((i) => !i.repaired && i.severity === "error")) return "error";
+  if (issues.some((i) => !i.repaired)) return "warning";
+  return "ok";
+}
+
+// Run every check. Nothing is changed.
+export async function checkIntegrity(db: Database): Promise<IntegrityReport> {
+  const results: Record<IntegrityCheckName, IntegrityIssue[]> = {
+    sqlite: checkSqlite(db),
+    fts: checkFts(db),
+    "missing-files": checkMissingFiles(db),
+    "unindexed-files": await checkUnindexedFiles(db),
+    "session-continuity": checkSessionContinuity(),
+    "memory-index": checkMemoryIndex(),
+    learnings: await checkLearnings(),
+  };
+  return buildReport(Object.values(results).flat());
+}
+
+export function buildReport(issues: IntegrityIssue[]): IntegrityReport {
+  const checks = Object.fromEntries(
+    INTEGRITY_CHECKS.map((name) => [name, statusOf(issues.filter((i) => i.check === name))])
+  ) as Record<IntegrityCheckName, IntegrityStatus>;
+  return {
+    checkedAt: new Date().toISOString(),
+    profile: PROFILE,
+    dbPath: DB_PATH,
+    status: statusOf(issues),
+    checks,
+    issues,
+    repaired: issues.filter((i) => i.repaired).length,
+  };
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[-:]/g, "").replace(/\..*$/, "");
+}
+
+// Rewrite a state file, keeping the previous version as <file>.bak
+function rewriteStateFile(file: string, value: object): void {
+  fs.copyFileSync(file, `${file}.bak`);
+  fs.writeFileSync(file, JSON.stringify(value, null, 2), "utf-8");
+}
+
+// Fill in missing CurrentWorkState fields, keeping everything that is valid
+function repairSessionContinuity(): void {
+  const state = JSON.parse(fs.readFileSync(SESSION_CONTINUITY_FILE, "utf-8"));
+  const last = typeof state.lastSession === "object" && state.lastSession !== null ? state.lastSession : {};
+  rewriteStateFile(SESSION_CONTINUITY_FILE, {
+    ...state,
+    activeProjects: isStringArray(state.activeProjects) ? state.activeProjects : [],
+    lastSession: {
+      ...last,
+      date: typeof last.date === "string" ? last.date : new Date().toISOString().split("T")[0],
+      summary: typeof last.summary === "string" ? last.summary : "No previous session",
+      nextSteps: isStringArray(last.nextSteps) ? last.nextSteps : [],
+    },
+    openItems: Array.isArray(state.openItems)
+      ? state.openItems.filter((item: any) => typeof item?.description === "string")
+      : [],
+    lastUpdated: typeof state.lastUpdated === "string" ? state.lastUpdated : new Date().toISOString(),
+  });
+}
+
+// Keep the last entry of each week (the latest WeeklySynthesis run) and drop
+// entries without a start date
+function repairMemoryIndex(): void {
+  const index = JSON.parse(fs.readFileSync(MEMORY_INDEX_FILE, "utf-8"));
+  const weeks = Array.isArray(index.weeks) ? index.weeks : [];
+  const latest = new Map<string, object>();
+  for (const week of weeks) {
+    if (typeof week?.start !== "string") continue;
+    latest.delete(week.start);
+    latest.set(week.start, week);
+  }
+  for (const pattern of Object.values(index.patterns ?? {}) as any[]) {
+    if (Array.isArray(pattern?.weeks)) pattern.weeks = [...new Set(pattern.weeks)];
+  }
+  rewriteStateFile(MEMORY_INDEX_FILE, {
+    ...index,
+    weeks: [...latest.values()].sort((a: any, b: any) => a.start.localeCompare(b.start)),
+    patterns: typeof index.patterns === "object" && !Array.isArray(index.patterns) ? (index.patterns ?? {}) : {},
+  });
+}
+
+// Fix the repairable issues that do not need a sync: rebuild FTS indexes
+// and repair state files. Missing and unindexed files are left to the
+// caller's sync. Issues are marked repaired in place.
+export function repairIntegrity(db: Database, issues: IntegrityIssue[]): void {
+  const pending = (check: IntegrityCheckName) => issues.filter((i) => i.check === check && i.repairable && !i.repaired);
+
+  for (const fts of new Set(pending("fts").map((i) => i.target!))) {
+    db.exec(`INSERT INTO ${fts}(${fts}) VALUES ('rebuild')`);
+    for (const i of pending("fts").filter((i) => i.target === fts)) i.repaired = true;
+  }
+
+  for (const [check, file, repair] of [
+    ["session-continuity", SESSION_CONTINUITY_FILE, repairSessionContinuity],
+    ["memory-index", MEMORY_INDEX_FILE, repairMemoryIndex],
+  ] as const) {
+    const found = pending(check);
+    if (found.length === 0) continue;
+    try {
+      repair();
+    } catch {
+      // Does not parse: move it aside; the tools start from an empty file
+      fs.renameSync(file, `${file}.corrupt-${timestamp()}`);
+    }
+    for (const i of found) i.repaired = true;
+  }
+}
+
+// Mark the repairable issues a later check no longer finds as repaired (a
+// sync run after repairIntegrity fixes missing and unindexed files)
+export function markRepaired(issues: IntegrityIssue[], remaining: IntegrityIssue[]): void {
+  for (const i of issues) {
+    if (!i.repairable || i.repaired) continue;
+    i.repaired = !remaining.some((r) => r.check === i.check && r.target === i.target && r.message === i.message);
+  }
+}
+
+export function readIntegrityState(): IntegrityReport | null {
+  try {
+    return JSON.parse(fs.readFileSync(INTEGRITY_STATE_FILE, "utf-8")) as IntegrityReport;
+  } catch {
+    return null;
+  }
+}
+
+export function writeIntegrityState(report: IntegrityReport): void {
+  fs.mkdirSync(path.dirname(INTEGRITY_STATE_FILE), { recursive: true });
+  const tmp = `${INTEGRITY_STATE_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(report, null, 2), "utf-8");
+  fs.renameSync(tmp, INTEGRITY_STATE_FILE);
+}
@@ -0,0 +1,242 @@
+/**
+ * PAI Memory Links
+ *
+ * Extracts [[wikilinks]] and relative markdown links from memories, resolves
+ * them to memory ids, and exports the resulting graph as DOT, GraphML or JSON.
+ *
+ * Wikilinks resolve by file name (with or without the date/LEARNING prefix
+ * used by captured learnings), then by topic. Markdown links resolve relative
+ * to the linking file.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import { toStoredPath, resolveStoredPath } from "./MemorySources";
+
+export interface ExtractedLink {
+  kind: "wikilink" | "markdown";
+  target: string;
+  line: number; // 1-based
+}
+
+export interface GraphNode {
+  id: string;
+  topic: string;
+  type: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: string;
+}
+
+export type GraphFormat = "dot" | "graphml" | "json";
+
+const WIKILINK = /\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_LINK = /(?<!!)\[[^\]]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+const FENCE = /^\s*(```|~~~)/;
+
+// Find links outside fenced code blocks
+export function extractLinks(content: string): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  let inFence = false;
+
+  content.split("\n").forEach((line, i) => {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (inFence) return;
+
+    for (const match of line.matchAll(WIKILINK)) {
+      links.push({ kind: "wikilink", target: match[1].trim(), line: i + 1 });
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK)) {
+      const href = match[1];
+      if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith("#")) continue; // URLs and anchors
+      let target = href.split("#")[0];
+      try {
+        target = decodeURI(target);
+      } catch {
+        // Keep the raw target
+      }
+      links.push({ kind: "markdown", target, line: i + 1 });
+    }
+  });
+
+  return links;
+}
+
+// Replace the outgoing links of a memory
+export function writeLinks(db: Database, memoryId: string, content: string): void {
+  db.prepare("DELETE FROM memory_links WHERE source_id = ?").run(memoryId);
+  const insert = db.prepare("INSERT INTO memory_links (source_id, kind, target, line) VALUES (?, ?, ?, ?)");
+  for (const link of extractLinks(content)) {
+    insert.run(memoryId, link.kind, link.target, link.line);
+  }
+}
+
+// File name without extension and without a leading date/time or LEARNING_ prefix
+function slug(name: string): string {
+  return name
+    .replace(/^\d{4}-?\d{2}-?\d{2}(?:[-_]\d{4,6})?[-_]/, "")
+    .replace(/^LEARNING_/i, "")
+    .toLowerCase();
+}
+
+// Resolve every link's target_id against the current memories. Run after each
+// sync, since targets may appear or disappear independently of their sources.
+export function resolveLinks(db: Database): { resolved: number; unresolved: number } {
+  const memories = db.prepare("SELECT id, topic, file_path FROM memories").all() as {
+    id: string;
+    topic: string | null;
+    file_path: string;
+  }[];
+
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string>();
+  const bySlug = new Map<string, string>();
+  const byTopic = new Map<string, string>();
+  for (const m of memories) {
+    const base = path.basename(m.file_path, path.extname(m.file_path));
+    byPath.set(m.file_path, m.id);
+    if (!byName.has(base.toLowerCase())) byName.set(base.toLowerCase(), m.id);
+    if (!bySlug.has(slug(base))) bySlug.set(slug(base), m.id);
+    if (m.topic && !byTopic.has(m.topic.toLowerCase())) byTopic.set(m.topic.toLowerCase(), m.id);
+  }
+  const filePathOf = new Map(memories.map((m) => [m.id, m.file_path]));
+
+  const links = db.prepare("SELECT rowid, source_id, kind, target FROM memory_links").all() as {
+    rowid: number;
+    source_id: string;
+    kind: string;
+    target: string;
+  }[];
+  const update = db.prepare("UPDATE memory_links SET target_id = ? WHERE rowid = ?");
+
+  let resolved = 0;
+  db.transaction(() => {
+    for (const link of links) {
+      let targetId: string | undefined;
+
+      if (link.kind === "markdown") {
+        const sourcePath = filePathOf.get(link.source_id);
+        if (sourcePath) {
+          const absolute = path.resolve(path.dirname(resolveStoredPath(sourcePath)), link.target);
+          targetId = byPath.get(toStoredPath(absolute));
+        }
+      } else {
+        const key = path.basename(link.target, path.extname(link.target)).toLowerCase();
+        targetId =
+          byName.get(key) || bySlug.get(slug(key)) || byTopic.get(link.target.toLowerCase());
+      }
+
+      update.run(targetId || null, link.rowid);
+      if (targetId) resolved++;
+    }
+  })();
+
+  return { resolved, unresolved: links.length - resolved };
+}
+
+export function getOutgoingLinks(db: Database, memoryId: string): any[] {
+  return db.prepare(`
+    SELECT l.kind, l.target, l.line, l.target_id, m.topic AS target_topic, m.type AS target_type
+    FROM memory_links l
+    LEFT JOIN memories m ON m.id = l.target_id
+    WHERE l.source_id = ?
+    ORDER BY l.line
+  `).all(memoryId) as any[];
+}
+
+export function getBacklinks(db: Database, memoryId: string): any[] {
+  return db.prepare(`
+    SELECT l.kind, l.line, l.source_id, m.topic AS source_topic, m.type AS source_type, m.file_path
+    FROM memory_links l
+    JOIN memories m ON m.id = l.source_id
+    WHERE l.target_id = ?
+    ORDER BY m.timestamp DESC
+  `).all(memoryId) as any[];
+}
+
+// Memories with no resolved links in either direction
+export function getOrphans(db: Database): any[] {
+  return db.prepare(`
+    SELECT id, topic, type, file_path
+    FROM memories
+    WHERE id NOT IN (SELECT source_id FROM memory_links WHERE target_id IS NOT NULL)
+      AND id NOT IN (SELECT target_id FROM memory_links WHERE target_id IS NOT NULL)
+    ORDER BY type, timestamp DESC
+  `).all() as any[];
+}
+
+export function getBrokenLinks(db: Database): any[] {
+  return db.prepare(`
+    SELECT l.source_id, l.kind, l.target, l.line
+    FROM memory_links l
+    WHERE l.target_id IS NULL
+    ORDER BY l.source_id, l.line
+  `).all() as any[];
+}
+
+export function getGraph(db: Database): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const nodes = db.prepare("SELECT id, topic, type FROM memories ORDER BY id").all() as GraphNode[];
+  const edges = db.prepare(`
+    SELECT DISTINCT source_id AS source, target_id AS target, kind
+    FROM memory_links
+    WHERE target_id IS NOT NULL
+    ORDER BY source_id, target_id
+  `).all() as GraphEdge[];
+  return { nodes, edges };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+export function formatGraph(graph: { nodes: GraphNode[]; edges: GraphEdge[] }, format: GraphFormat): string {
+  if (format === "json") {
+    return JSON.stringify(graph, null, 2);
+  }
+
+  if (format === "dot") {
+    const lines = ["digraph memories {", "  rankdir=LR;", "  node [shape=box];"];
+    for (const node of graph.nodes) {
+      lines.push(`  "${escapeDot(node.id)}" [label="${escapeDot(node.topic || node.id)}", group="${node.type}"];`);
+    }
+    for (const edge of graph.edges) {
+      lines.push(`  "${escapeDot(edge.source)}" -> "${escapeDot(edge.target)}" [label="${edge.kind}"];`);
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="topic" for="node" attr.name="topic" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>',
+    '  <graph id="memories" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="topic">${escapeXml(node.topic || "")}</data>`);
+    lines.push(`      <data key="type">${escapeXml(node.type)}</data>`);
+    lines.push("    </node>");
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(`      <data key="kind">${edge.kind}</data>`);
+    lines.push("    </edge>");
+  });
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
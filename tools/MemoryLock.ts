@@ -0,0 +1,189 @@
+/**
+ * PAI Memory Lock
+ *
+ * Safe concurrent access to memory.db when hooks, sync, watch and synthesis
+ * run at the same time:
+ *
+ *   - Every connection uses WAL journaling and a busy timeout, so readers
+ *     never wait for a writer and writers queue up instead of failing.
+ *   - Writers (sync, watch batches, import, ...) also take a cross-process
+ *     lock file, STATE/memory-write.lock, so only one of them works on the
+ *     index at a time. A lock left behind by a dead process is taken over.
+ *   - SQLITE_BUSY that still gets through is retried with backoff.
+ *
+ * Read-only commands open the database with { readonly: true } and never
+ * take the lock.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import * as fs from "fs";
+import { STATE_DIR } from "./MemoryPaths";
+
+export const WRITE_LOCK_FILE = path.join(STATE_DIR, "memory-write.lock");
+export const BUSY_TIMEOUT_MS = Number(process.env.PAI_MEMORY_BUSY_TIMEOUT) || 5_000;
+export const LOCK_TIMEOUT_MS = Number(process.env.PAI_MEMORY_LOCK_TIMEOUT) || 120_000;
+
+const RETRY_ATTEMPTS = 8;
+const RETRY_BASE_MS = 50;
+const RETRY_MAX_MS = 2_000;
+
+export interface WriteLockOwner {
+  pid: number;
+  command: string;
+  acquiredAt: string;
+}
+
+// Nesting depth of the lock in this process (the lock is re-entrant)
+let held = 0;
+
+export function processExists(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === "EPERM";
+  }
+}
+
+export function isBusyError(error: unknown): boolean {
+  const code = (error as any)?.code;
+  return code === "SQLITE_BUSY" || code === "SQLITE_LOCKED" || /database is locked/.test(String((error as any)?.message));
+}
+
+// Exponential backoff with jitter: ~50ms, 100ms, 200ms, ... up to 2s
+function backoff(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Run fn, retrying while SQLite reports the database as busy
+export function withBusyRetry<T>(fn: () => T, attempts: number = RETRY_ATTEMPTS): T {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return fn();
+    } catch (error) {
+      if (!isBusyError(error) || attempt >= attempts - 1) throw error;
+      Bun.sleepSync(backoff(attempt));
+    }
+  }
+}
+
+// Busy timeout and WAL journaling for a read-write connection. WAL is stored
+// in the database file, so read-only connections pick it up too.
+export function configureConnection(db: Database): Database {
+  db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  withBusyRetry(() => {
+    const { journal_mode } = db.prepare("PRAGMA journal_mode").get() as { journal_mode: string };
+    if (journal_mode !== "wal") db.exec("PRAGMA journal_mode = WAL");
+  });
+  db.exec("PRAGMA synchronous = NORMAL");
+  return db;
+}
+
+export function openReadOnly(dbPath: string): Database {
+  const db = new Database(dbPath, { readonly: true });
+  db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  return db;
+}
+
+export function readLockOwner(): WriteLockOwner | null {
+  try {
+    return JSON.parse(fs.readFileSync(WRITE_LOCK_FILE, "utf-8")) as WriteLockOwner;
+  } catch {
+    return null;
+  }
+}
+
+// Remove the lock file if its owner is gone (or it was never fully written)
+function clearStaleLock(): boolean {
+  const owner = readLockOwner();
+  if (owner && processExists(owner.pid)) return false;
+  if (!owner) {
+    // Give a writer that has just created the file time to fill it in
+    try {
+      if (Date.now() - fs.statSync(WRITE_LOCK_FILE).mtimeMs < 2_000) return false;
+    } catch {
+      return true; // Already gone
+    }
+  }
+  fs.rmSync(WRITE_LOCK_FILE, { force: true });
+  return true;
+}
+
+function releaseWriteLock(): void {
+  if (held === 0) return;
+  held--;
+  if (held > 0) return;
+  if (readLockOwner()?.pid === process.pid) fs.rmSync(WRITE_LOCK_FILE, { force: true });
+}
+
+// Release function for one acquire; calling it again does nothing
+function releaser(): () => void {
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    releaseWriteLock();
+  };
+}
+
+// Take the writer lock, waiting (with backoff) while another live process
+// holds it. Returns the release function. Throws after timeoutMs.
+export async function acquireWriteLock(
+  command: string,
+  timeoutMs: number = LOCK_TIMEOUT_MS,
+  onWait?: (owner: WriteLockOwner) => void
+): Promise<() => void> {
+  if (held > 0) {
+    held++;
+    return releaser();
+  }
+
+  fs.mkdirSync(path.dirname(WRITE_LOCK_FILE), { recursive: true });
+  const deadline = Date.now() + timeoutMs;
+  let notified = false;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const fd = fs.openSync(WRITE_LOCK_FILE, "wx");
+      const owner: WriteLockOwner = { pid: process.pid, command, acquiredAt: new Date().toISOString() };
+      fs.writeSync(fd, JSON.stringify(owner));
+      fs.closeSync(fd);
+      held = 1;
+      return releaser();
+    } catch (error: any) {
+      if (error.code !== "EEXIST") throw error;
+    }
+
+    if (clearStaleLock()) continue;
+
+    const owner = readLockOwner();
+    if (Date.now() >= deadline) {
+      const by = owner ? `${owner.command} (pid ${owner.pid}, since ${owner.acquiredAt})` : "another process";
+      throw new Error(`memory.db is busy: ${by} holds ${WRITE_LOCK_FILE}`);
+    }
+    if (owner && !notified && onWait) {
+      onWait(owner);
+      notified = true;
+    }
+    await Bun.sleep(Math.min(backoff(attempt), Math.max(deadline - Date.now(), 0)));
+  }
+}
+
+export async function withWriteLock<T>(command: string, fn: () => Promise<T> | T): Promise<T> {
+  const release = await acquireWriteLock(command);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+// Never leave the lock behind, even on process.exit()
+process.on("exit", () => {
+  if (held > 0) {
+    held = 1;
+    releaseWriteLock();
+  }
+});
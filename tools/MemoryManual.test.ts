@@ -0,0 +1,70 @@
+/**
+ * Tests for the manual memory commands: insert, update, pin and delete
+ * (MemoryManual.ts through MemoryDatabase.ts)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import { createTestHome } from "./TestHome";
+import type { TestHome, ToolResult } from "./TestHome";
+
+let home: TestHome;
+
+function database(...args: string[]): ToolResult {
+  const result = home.run("MemoryDatabase.ts", args);
+  expect(result.code).toBe(0);
+  return result;
+}
+
+// Insert a note and return its id and file
+function insert(...flags: string[]): { id: string; filePath: string } {
+  const note = home.write("note.md", "# Retry budget\n\nCap retries at three per request.\n");
+  const { stdout } = database("insert", "learning", note, ...flags);
+  const match = stdout.match(/Inserted (\S+) \(written to (\S+)\)/);
+  expect(match).not.toBeNull();
+  return { id: match![1], filePath: home.path(`.claude/${match![2]}`) };
+}
+
+beforeEach(() => {
+  home = createTestHome();
+  database("sync");
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("manual memories", () => {
+  test("fields set by hand survive edits of the file and later syncs", () => {
+    const { id, filePath } = insert("--importance", "5", "--tags", "retry");
+    database("pin", id);
+
+    fs.appendFileSync(filePath, "\nBack off exponentially between them.\n");
+    database("sync");
+
+    const shown = database("show", id).stdout;
+    expect(shown).toContain("📌 pinned");
+    expect(shown).toMatch(/Importance: +5 \(set by hand\)/);
+    expect(shown).toMatch(/Tags: +#retry \(set by hand\)/);
+    expect(shown).toContain("Back off exponentially");
+
+    database("update", id, "--reset");
+    expect(database("show", id).stdout).not.toContain("(set by hand)");
+  });
+
+  test("delete keeps the file out of the index, --remove-file deletes it", () => {
+    const { id, filePath } = insert();
+    database("delete", id);
+    database("sync");
+    expect(fs.existsSync(filePath)).toBe(true);
+    expect(home.run("MemoryDatabase.ts", ["show", id]).code).toBe(1);
+
+    const again = insert();
+    database("delete", again.id, "--remove-file");
+    expect(fs.existsSync(again.filePath)).toBe(false);
+    database("sync");
+    expect(home.run("MemoryDatabase.ts", ["show", again.id]).code).toBe(1);
+  });
+});
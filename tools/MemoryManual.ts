@@ -0,0 +1,199 @@
+/**
+ * PAI Manual Memories
+ *
+ * Hand-managed memories behind `MemoryDatabase.ts insert | show | update |
+ * delete | pin | unpin`.
+ *
+ * A memory is always backed by a file. `insert` indexes a file that belongs
+ * to a source in place; anything else (stdin, files elsewhere) is written to
+ * MEMORY/MANUAL/YYYY-MM/ and indexed by the "manual" source.
+ *
+ * Fields set by hand are stored as overrides (memories.overrides, JSON) and
+ * re-applied after every sync, so extractMetadata() never undoes them.
+ * Pinned memories are always listed in the session context. A deleted memory
+ * whose file is kept gets a tombstone, so sync does not index it again.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import * as fs from "fs";
+import { MEMORY_DIR, DB_PATH } from "./MemoryPaths";
+import { openReadOnly } from "./MemoryLock";
+
+export const MANUAL_DIR = path.join(MEMORY_DIR, "MANUAL");
+
+export const MEMORY_TYPES = ["learning", "session", "synthesis", "work"] as const;
+export type MemoryType = (typeof MEMORY_TYPES)[number];
+
+// Fields set by hand; they win over what sync extracts from the file
+export interface MemoryOverrides {
+  type?: MemoryType;
+  topic?: string;
+  tags?: string; // "#a #b", as stored in memories.tags
+  importance?: number; // 1-5
+  stability?: number; // 1-5
+  rating?: number; // 1-10
+}
+
+// Override fields and the flags that set them
+const OVERRIDE_FLAGS: Record<keyof MemoryOverrides, string> = {
+  type: "--type",
+  topic: "--topic",
+  tags: "--tags",
+  importance: "--importance",
+  stability: "--stability",
+  rating: "--rating",
+};
+
+// Overrides stay out of the plaintext row for encrypted memories
+export const ENCRYPTED_FIELDS: (keyof MemoryOverrides)[] = ["topic", "tags"];
+
+function parseScore(flag: string, value: string, max: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1 || n > max) throw new Error(`${flag} must be a whole number from 1 to ${max}`);
+  return n;
+}
+
+// "a, #b c" -> "#a #b #c"
+export function normalizeTags(value: string): string {
+  return value
+    .split(/[\s,]+/)
+    .map((tag) => tag.replace(/^#/, ""))
+    .filter(Boolean)
+    .map((tag) => `#${tag}`)
+    .join(" ");
+}
+
+// Overrides given as --type/--topic/--tags/--importance/--stability/--rating
+export function parseOverrideFlags(args: string[]): MemoryOverrides {
+  const overrides: MemoryOverrides = {};
+  for (const [field, flag] of Object.entries(OVERRIDE_FLAGS) as [keyof MemoryOverrides, string][]) {
+    const i = args.indexOf(flag);
+    if (i < 0) continue;
+    const value = args[i + 1];
+    if (value === undefined) throw new Error(`${flag} needs a value`);
+    switch (field) {
+      case "type":
+        if (!(MEMORY_TYPES as readonly string[]).includes(value)) {
+          throw new Error(`--type must be one of ${MEMORY_TYPES.join(", ")}`);
+        }
+        overrides.type = value as MemoryType;
+        break;
+      case "topic":
+        if (!value.trim()) throw new Error("--topic must not be empty");
+        overrides.topic = value.trim();
+        break;
+      case "tags":
+        overrides.tags = normalizeTags(value);
+        break;
+      case "rating":
+        overrides.rating = parseScore(flag, value, 10);
+        break;
+      default:
+        overrides[field] = parseScore(flag, value, 5);
+    }
+  }
+  return overrides;
+}
+
+// Arguments that are not override flags or their values
+export function withoutOverrideFlags(args: string[]): string[] {
+  const flags = Object.values(OVERRIDE_FLAGS);
+  return args.filter((arg, i) => !flags.includes(arg) && !flags.includes(args[i - 1]));
+}
+
+export function getOverrides(db: Database, id: string): MemoryOverrides {
+  const row = db.prepare("SELECT overrides FROM memories WHERE id = ?").get(id) as { overrides: string | null } | null;
+  return row?.overrides ? (JSON.parse(row.overrides) as MemoryOverrides) : {};
+}
+
+// Merge overrides into the stored ones (null drops them all) and apply them
+export function setOverrides(db: Database, id: string, overrides: MemoryOverrides | null): MemoryOverrides {
+  const merged = overrides ? { ...getOverrides(db, id), ...overrides } : {};
+  const stored = Object.keys(merged).length > 0 ? JSON.stringify(merged) : null;
+  db.prepare("UPDATE memories SET overrides = ? WHERE id = ?").run(stored, id);
+  applyOverrides(db, id);
+  return merged;
+}
+
+// Write a memory's overrides over the values sync extracted
+export function applyOverrides(db: Database, id: string): void {
+  const overrides = getOverrides(db, id);
+  const fields = Object.keys(overrides) as (keyof MemoryOverrides)[];
+  if (fields.length === 0) return;
+  db.prepare(`UPDATE memories SET ${fields.map((f) => `${f} = ?`).join(", ")} WHERE id = ?`).run(
+    ...fields.map((f) => overrides[f]!),
+    id
+  );
+}
+
+export function setPinned(db: Database, id: string, pinned: boolean): boolean {
+  return db.prepare("UPDATE memories SET pinned = ? WHERE id = ?").run(pinned ? 1 : 0, id).changes > 0;
+}
+
+export function isTombstoned(db: Database, id: string): boolean {
+  return Boolean(db.prepare("SELECT 1 FROM memory_tombstones WHERE id = ?").get(id));
+}
+
+export function addTombstone(db: Database, id: string, filePath: string): void {
+  db.prepare(`
+    INSERT INTO memory_tombstones (id, file_path, deleted_at) VALUES (?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET file_path = excluded.file_path, deleted_at = excluded.deleted_at
+  `).run(id, filePath, new Date().toISOString());
+}
+
+export function clearTombstone(db: Database, id: string): void {
+  db.prepare("DELETE FROM memory_tombstones WHERE id = ?").run(id);
+}
+
+// Write content for the manual source: MANUAL/YYYY-MM/YYYY-MM-DD-HHMMSS_<slug>.md
+export function writeManualFile(content: string, title: string, now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const month = `${now.getFullYear()}-${pad(now.getMonth() + 1)}`;
+  const stamp = `${month}-${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "memory";
+
+  const dir = path.join(MANUAL_DIR, month);
+  fs.mkdirSync(dir, { recursive: true });
+  let file = path.join(dir, `${stamp}_${slug}.md`);
+  for (let n = 2; fs.existsSync(file); n++) file = path.join(dir, `${stamp}_${slug}-${n}.md`);
+  fs.writeFileSync(file, content.endsWith("\n") ? content : content + "\n", "utf-8");
+  return file;
+}
+
+// Pinned memories as "topic: first lines", for the session context. Reads
+// the database directly and returns nothing if it does not exist yet.
+// Encrypted memories show their source's topic only.
+export function loadPinnedMemories(dbPath: string = DB_PATH, maxLength: number = 200): string[] {
+  if (!fs.existsSync(dbPath)) return [];
+  const db = openReadOnly(dbPath);
+  try {
+    const columns = db.prepare("PRAGMA table_info(memories)").all() as { name: string }[];
+    if (!columns.some((c) => c.name === "pinned")) return [];
+
+    const rows = db.prepare(`
+      SELECT topic, content FROM memories
+      WHERE pinned = 1 AND archived = 0
+      ORDER BY importance DESC, timestamp DESC
+    `).all() as { topic: string; content: string }[];
+
+    return rows.map((row) => {
+      const text = row.content
+        .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, "")
+        .split(/\r?\n/)
+        .filter((line) => line.trim() && !line.startsWith("#"))
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
+      const excerpt = text.length > maxLength ? text.slice(0, maxLength - 1) + "…" : text;
+      return excerpt ? `${row.topic}: ${excerpt}` : row.topic;
+    });
+  } finally {
+    db.close();
+  }
+}
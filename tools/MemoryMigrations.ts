@@ -0,0 +1,360 @@
+/**
+ * PAI Memory Database Migrations
+ *
+ * Ordered schema migrations for memory.db. The applied version is tracked in
+ * PRAGMA user_version; each migration runs in its own transaction and bumps
+ * the version only if it succeeds.
+ *
+ * To change the schema, append a migration with the next version number.
+ * Never edit a migration that has already shipped.
+ */
+
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+// Columns and tokenizer of the memories_fts external-content index
+export interface FtsDefinition {
+  columns: string[];
+  tokenize?: string;
+}
+
+// Add a column unless it already exists (databases created before migrations
+// may already have it)
+function addColumn(db: Database, table: string, name: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === name)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  }
+}
+
+// Drop and recreate memories_fts and its triggers, then repopulate it from
+// memories. Use this whenever the FTS definition changes.
+export function rebuildFts(db: Database, definition: FtsDefinition): void {
+  const cols = definition.columns.join(", ");
+  const newCols = definition.columns.map((c) => `new.${c}`).join(", ");
+  const oldCols = definition.columns.map((c) => `old.${c}`).join(", ");
+  const tokenize = definition.tokenize ? `,\n      tokenize='${definition.tokenize}'` : "";
+
+  db.exec(`
+    DROP TRIGGER IF EXISTS memories_fts_insert;
+    DROP TRIGGER IF EXISTS memories_fts_delete;
+    DROP TRIGGER IF EXISTS memories_fts_update;
+    DROP TABLE IF EXISTS memories_fts;
+
+    CREATE VIRTUAL TABLE memories_fts USING fts5(
+      ${cols},
+      content='memories',
+      content_rowid='rowid'${tokenize}
+    );
+
+    -- External content tables must be updated through the 'delete' command
+    CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+      INSERT INTO memories_fts(rowid, ${cols}) VALUES (new.rowid, ${newCols});
+    END;
+
+    CREATE TRIGGER memories_fts_delete AFTER DELETE ON memories BEGIN
+      INSERT INTO memories_fts(memories_fts, rowid, ${cols}) VALUES ('delete', old.rowid, ${oldCols});
+    END;
+
+    CREATE TRIGGER memories_fts_update AFTER UPDATE OF ${cols} ON memories BEGIN
+      INSERT INTO memories_fts(memories_fts, rowid, ${cols}) VALUES ('delete', old.rowid, ${oldCols});
+      INSERT INTO memories_fts(rowid, ${cols}) VALUES (new.rowid, ${newCols});
+    END;
+
+    INSERT INTO memories_fts(memories_fts) VALUES ('rebuild');
+  `);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create memories table and indexes",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          timestamp DATETIME NOT NULL,
+          type TEXT NOT NULL,
+          topic TEXT,
+          content TEXT NOT NULL,
+          rating INTEGER,
+          tags TEXT,
+          file_path TEXT NOT NULL,
+          importance INTEGER DEFAULT 3,
+          stability INTEGER DEFAULT 3,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_timestamp ON memories(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_type ON memories(type);
+        CREATE INDEX IF NOT EXISTS idx_topic ON memories(topic);
+        CREATE INDEX IF NOT EXISTS idx_rating ON memories(rating);
+        CREATE INDEX IF NOT EXISTS idx_importance ON memories(importance);
+        CREATE INDEX IF NOT EXISTS idx_stability ON memories(stability);
+        CREATE INDEX IF NOT EXISTS idx_created_at ON memories(created_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Track source content hash and mtime for incremental sync",
+    up: (db) => {
+      addColumn(db, "memories", "content_hash", "TEXT");
+      addColumn(db, "memories", "mtime", "INTEGER");
+    },
+  },
+  {
+    version: 3,
+    description: "Rebuild memories_fts with delete-command triggers",
+    up: (db) => rebuildFts(db, { columns: ["id", "content", "topic", "tags"] }),
+  },
+  {
+    version: 4,
+    description: "Add memory_embeddings table for semantic search",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_embeddings (
+          memory_id TEXT PRIMARY KEY,
+          model TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          content_hash TEXT,
+          vector BLOB NOT NULL
+        );
+
+        CREATE TRIGGER IF NOT EXISTS memories_embeddings_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_embeddings WHERE memory_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Track memory access for strength scoring",
+    up: (db) => {
+      addColumn(db, "memories", "access_count", "INTEGER NOT NULL DEFAULT 0");
+      addColumn(db, "memories", "last_accessed", "DATETIME");
+    },
+  },
+  {
+    version: 6,
+    description: "Add memory_chunks for section-level indexing (forces a full re-sync)",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_chunks (
+          id INTEGER PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          ordinal INTEGER NOT NULL,
+          heading_path TEXT NOT NULL,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          content TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_chunks_memory ON memory_chunks(memory_id);
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS memory_chunks_fts USING fts5(
+          content,
+          heading_path,
+          content='memory_chunks',
+          content_rowid='id'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS memory_chunks_fts_insert AFTER INSERT ON memory_chunks BEGIN
+          INSERT INTO memory_chunks_fts(rowid, content, heading_path)
+          VALUES (new.id, new.content, new.heading_path);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS memory_chunks_fts_delete AFTER DELETE ON memory_chunks BEGIN
+          INSERT INTO memory_chunks_fts(memory_chunks_fts, rowid, content, heading_path)
+          VALUES ('delete', old.id, old.content, old.heading_path);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS memories_chunks_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_chunks WHERE memory_id = old.id;
+        END;
+
+        -- Content used to be truncated; make the next sync re-read every file
+        UPDATE memories SET mtime = NULL, content_hash = NULL;
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "Add memory_links for wikilinks and markdown links (forces a full re-sync)",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_links (
+          source_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          target TEXT NOT NULL,
+          target_id TEXT,
+          line INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_links_source ON memory_links(source_id);
+        CREATE INDEX IF NOT EXISTS idx_links_target ON memory_links(target_id);
+
+        CREATE TRIGGER IF NOT EXISTS memories_links_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_links WHERE source_id = old.id;
+        END;
+
+        -- Extract links from every file on the next sync
+        UPDATE memories SET mtime = NULL, content_hash = NULL;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Add memory_aliases for merged near-duplicates",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_aliases (
+          alias_id TEXT PRIMARY KEY,
+          canonical_id TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          similarity REAL,
+          merged_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_aliases_canonical ON memory_aliases(canonical_id);
+
+        -- A removed duplicate needs no alias; a removed canonical memory
+        -- releases its duplicates
+        CREATE TRIGGER IF NOT EXISTS memories_aliases_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_aliases WHERE alias_id = old.id OR canonical_id = old.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Track archived memories and their archive bundle",
+    up: (db) => {
+      addColumn(db, "memories", "archived", "INTEGER NOT NULL DEFAULT 0");
+      addColumn(db, "memories", "archive_bundle", "TEXT");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_archived ON memories(archived)");
+    },
+  },
+  {
+    version: 10,
+    description: "Add redactions audit table (forces a full re-sync)",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS redactions (
+          id INTEGER PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          action TEXT NOT NULL,
+          line INTEGER NOT NULL,
+          fingerprint TEXT NOT NULL,
+          preview TEXT,
+          redacted_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_redactions_memory ON redactions(memory_id);
+
+        CREATE TRIGGER IF NOT EXISTS memories_redactions_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM redactions WHERE memory_id = old.id;
+        END;
+
+        -- Indexed content predates redaction; make the next sync re-read every file
+        UPDATE memories SET mtime = NULL, content_hash = NULL;
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "Add encrypted storage for sensitive sources",
+    up: (db) => {
+      addColumn(db, "memories", "encrypted", "INTEGER NOT NULL DEFAULT 0");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_secrets (
+          memory_id TEXT PRIMARY KEY,
+          iv BLOB NOT NULL,
+          tag BLOB NOT NULL,
+          ciphertext BLOB NOT NULL
+        );
+
+        CREATE TRIGGER IF NOT EXISTS memories_secrets_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_secrets WHERE memory_id = old.id;
+        END;
+
+        CREATE TABLE IF NOT EXISTS memory_crypto (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          salt BLOB NOT NULL,
+          n INTEGER NOT NULL,
+          r INTEGER NOT NULL,
+          p INTEGER NOT NULL,
+          check_iv BLOB NOT NULL,
+          check_tag BLOB NOT NULL,
+          check_ciphertext BLOB NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "Add pinned memories, manual overrides and tombstones for deleted memories",
+    up: (db) => {
+      addColumn(db, "memories", "pinned", "INTEGER NOT NULL DEFAULT 0");
+      addColumn(db, "memories", "overrides", "TEXT");
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pinned ON memories(pinned);
+
+        CREATE TABLE IF NOT EXISTS memory_tombstones (
+          id TEXT PRIMARY KEY,
+          file_path TEXT NOT NULL,
+          deleted_at DATETIME NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database): number {
+  return (db.prepare("PRAGMA user_version").get() as { user_version: number }).user_version;
+}
+
+export function getPendingMigrations(db: Database): Migration[] {
+  const current = getSchemaVersion(db);
+  return MIGRATIONS.filter((m) => m.version > current);
+}
+
+// Apply pending migrations in order. With dryRun, only report what would run.
+// A pre-existing database is copied to memory.db.bak-v<version> first.
+export function migrate(db: Database, dbPath: string, options: { dryRun?: boolean } = {}): Migration[] {
+  const pending = getPendingMigrations(db);
+  if (pending.length === 0 || options.dryRun) return pending;
+
+  const current = getSchemaVersion(db);
+  const hasTables = db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'memories'").get();
+  if (hasTables && fs.existsSync(dbPath)) {
+    const backupPath = `${dbPath}.bak-v${current}`;
+    fs.rmSync(backupPath, { force: true });
+    db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+  }
+
+  for (const migration of pending) {
+    db.exec("BEGIN");
+    try {
+      migration.up(db);
+      db.exec(`PRAGMA user_version = ${migration.version}`);
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${message}`);
+    }
+  }
+
+  return pending;
+}
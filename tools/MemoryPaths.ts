@@ -0,0 +1,184 @@
+/**
+ * PAI Memory Paths
+ *
+ * Every file location the memory tools use, resolved for the active profile.
+ * A profile is a separate memory store with its own source registry,
+ * memory.db and STATE files, e.g. one per client so their work never shows
+ * up in another client's search results or session context.
+ *
+ * The profile comes from `--profile <name>` on the command line, else
+ * PAI_MEMORY_PROFILE, else "default":
+ *
+ *   default   ~/.claude/MEMORY/...            tools/memory-sources.json
+ *   <name>    ~/.claude/profiles/<name>/MEMORY/...
+ *                                             profiles/<name>/memory-sources.json
+ *
+ * The default profile keeps the original single-store layout, so existing
+ * installs need no changes.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { ansi } from "./CliOutput";
+import type { MemorySource } from "./types/memory";
+
+export const DEFAULT_PROFILE = "default";
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+export const PAI_HOME = process.env.PAI_HOME || path.join(process.env.HOME!, ".claude");
+export const TOOLS_DIR = import.meta.dir;
+export const PROFILES_DIR = path.join(PAI_HOME, "profiles");
+
+// Value of --profile (or --profile=name) in the arguments, if any
+export function parseProfileFlag(args: string[]): string | undefined {
+  let profile: string | undefined;
+  args.forEach((arg, i) => {
+    if (arg === "--profile") profile = args[i + 1];
+    else if (arg.startsWith("--profile=")) profile = arg.slice("--profile=".length);
+  });
+  return profile;
+}
+
+// Arguments with --profile <name> removed
+export function withoutProfileFlag(args: string[]): string[] {
+  return args.filter((arg, i) => arg !== "--profile" && args[i - 1] !== "--profile" && !arg.startsWith("--profile="));
+}
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+export interface ProfilePaths {
+  name: string;
+  dir: string; // Profile directory (PAI_HOME for the default profile)
+  memoryDir: string;
+  dbPath: string;
+  stateDir: string;
+  sourcesFile: string; // memory-sources.json
+  journalDir: string; // Daily journal read by SessionContextLoader.ts
+}
+
+// Locations of a profile's files; nothing is created
+export function profilePaths(name: string): ProfilePaths {
+  if (!isValidProfileName(name)) {
+    throw new Error(`Invalid profile name "${name}" (letters, digits, - and _)`);
+  }
+
+  if (name === DEFAULT_PROFILE) {
+    const memoryDir = path.join(PAI_HOME, "MEMORY");
+    return {
+      name,
+      dir: PAI_HOME,
+      memoryDir,
+      dbPath: path.join(memoryDir, "memory.db"),
+      stateDir: path.join(memoryDir, "STATE"),
+      sourcesFile: process.env.PAI_MEMORY_SOURCES || path.join(TOOLS_DIR, "memory-sources.json"),
+      journalDir: path.join(process.env.HOME!, "vault", "journal"),
+    };
+  }
+
+  const dir = path.join(PROFILES_DIR, name);
+  const memoryDir = path.join(dir, "MEMORY");
+  return {
+    name,
+    dir,
+    memoryDir,
+    dbPath: path.join(memoryDir, "memory.db"),
+    stateDir: path.join(memoryDir, "STATE"),
+    sourcesFile: path.join(dir, "memory-sources.json"),
+    journalDir: path.join(dir, "journal"),
+  };
+}
+
+// Named profiles found under PAI_HOME/profiles, plus the default profile
+export function listProfiles(): string[] {
+  const named = fs.existsSync(PROFILES_DIR)
+    ? fs
+        .readdirSync(PROFILES_DIR, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && isValidProfileName(entry.name))
+        .map((entry) => entry.name)
+        .sort()
+    : [];
+  return [DEFAULT_PROFILE, ...named.filter((name) => name !== DEFAULT_PROFILE)];
+}
+
+export function profileExists(name: string): boolean {
+  return name === DEFAULT_PROFILE || fs.existsSync(path.join(PROFILES_DIR, name));
+}
+
+// Active profile, fixed for the lifetime of the process
+export const PROFILE =
+  parseProfileFlag(process.argv.slice(2)) || process.env.PAI_MEMORY_PROFILE || DEFAULT_PROFILE;
+
+// An invalid name resolves to the default profile's paths so that importing
+// this module never throws; entry points report it with requireActiveProfile()
+// before touching any file
+const ACTIVE = profilePaths(isValidProfileName(PROFILE) ? PROFILE : DEFAULT_PROFILE);
+
+export const PROFILE_DIR = ACTIVE.dir;
+export const MEMORY_DIR = ACTIVE.memoryDir;
+export const DB_PATH = ACTIVE.dbPath;
+export const STATE_DIR = ACTIVE.stateDir;
+export const SOURCES_FILE = ACTIVE.sourcesFile;
+export const JOURNAL_DIR = ACTIVE.journalDir;
+
+// Why the active profile cannot be used, or null if it can
+export function activeProfileError(): string | null {
+  if (!isValidProfileName(PROFILE)) return `Invalid profile name "${PROFILE}" (letters, digits, - and _)`;
+  if (!profileExists(PROFILE)) {
+    return `Unknown profile "${PROFILE}" (create it with: bun MemoryDatabase.ts profiles create ${PROFILE})`;
+  }
+  return null;
+}
+
+// For CLI entry points: print why the active profile cannot be used and exit 1
+export function requireActiveProfile(): void {
+  const error = activeProfileError();
+  if (!error) return;
+  const colors = ansi({ red: "\x1b[31m", reset: "\x1b[0m" });
+  console.error(`${colors.red}Error: ${error}${colors.reset}`);
+  process.exit(1);
+}
+
+// A per-profile config file (e.g. memory-redaction.json) if the profile has
+// one, else the shared one next to the tools
+export function profileConfigFile(fileName: string): string {
+  const own = path.join(ACTIVE.dir, fileName);
+  return PROFILE !== DEFAULT_PROFILE && fs.existsSync(own) ? own : path.join(TOOLS_DIR, fileName);
+}
+
+// Create a named profile: its MEMORY tree, journal directory and a source
+// registry with the default profile's MEMORY sources pointed at the new
+// profile (vault sources are left out; add them by hand if wanted)
+export function createProfile(name: string): ProfilePaths {
+  if (name === DEFAULT_PROFILE) throw new Error(`"${DEFAULT_PROFILE}" always exists`);
+  const paths = profilePaths(name);
+  if (fs.existsSync(paths.dir)) throw new Error(`Profile "${name}" already exists: ${paths.dir}`);
+
+  for (const dir of ["LEARNING/ALGORITHM", "LEARNING/SYSTEM", "LEARNING/SYNTHESIS", "WORK", "STATE"]) {
+    fs.mkdirSync(path.join(paths.memoryDir, dir), { recursive: true });
+  }
+  fs.mkdirSync(paths.journalDir, { recursive: true });
+
+  const defaults: { sources: MemorySource[] } = JSON.parse(
+    fs.readFileSync(profilePaths(DEFAULT_PROFILE).sourcesFile, "utf-8")
+  );
+  const sources: MemorySource[] = defaults.sources
+    .filter((source) => source.root.startsWith("$PAI_HOME/MEMORY"))
+    .map((source) => ({ ...source, root: source.root.replace("$PAI_HOME/MEMORY", "$PAI_MEMORY") }));
+  sources.push({
+    name: "journal",
+    label: "JOURNAL",
+    root: "journal",
+    glob: "*.md",
+    idPrefix: "journal_",
+    type: "session",
+    topic: "Journal {name}",
+    importance: 3,
+    stability: 2,
+    recencyDays: 30,
+  });
+  fs.writeFileSync(paths.sourcesFile, JSON.stringify({ sources }, null, 2) + "\n", "utf-8");
+
+  return paths;
+}
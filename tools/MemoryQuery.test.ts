@@ -0,0 +1,50 @@
+/**
+ * Tests for the database search query language (MemoryQuery.ts through
+ * MemoryDatabase.ts search)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createTestHome } from "./TestHome";
+import type { TestHome } from "./TestHome";
+
+const DIR = ".claude/MEMORY/LEARNING/ALGORITHM/2026-10";
+
+let home: TestHome;
+
+function ids(query: string): string[] {
+  const result = home.run("MemoryDatabase.ts", ["search", query, "--json"]);
+  expect(result.code).toBe(0);
+  return JSON.parse(result.stdout).results.map((r: { id: string }) => r.id).sort();
+}
+
+beforeEach(() => {
+  home = createTestHome();
+  home.write(`${DIR}/2026-10-01-100000_LEARNING_rotation.md`, "# Token rotation\n\n**Rating:** 9/10\n\n#security Rotate refresh tokens.\n");
+  home.write(`${DIR}/2026-10-02-100000_LEARNING_cache.md`, "# Token cache\n\n**Rating:** 4/10\n\nCache tokens for a minute.\n");
+  expect(home.run("MemoryDatabase.ts", ["sync"]).code).toBe(0);
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("search queries", () => {
+  const rotation = "algo_2026-10_2026-10-01-100000_LEARNING_rotation";
+  const cache = "algo_2026-10_2026-10-02-100000_LEARNING_cache";
+
+  test("combine terms with field filters", () => {
+    expect(ids("tokens")).toEqual([rotation, cache]);
+    expect(ids("tokens rating>=7")).toEqual([rotation]);
+    expect(ids("tokens -rotation")).toEqual([cache]);
+    expect(ids("tag:#security")).toEqual([rotation]);
+    expect(ids("tokens type:learning rating<5")).toEqual([cache]);
+  });
+
+  test("report syntax errors with their position", () => {
+    const result = home.run("MemoryDatabase.ts", ["search", "tokens AND ("]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("Error: Missing closing parenthesis\n  tokens AND (\n             ^");
+  });
+});
@@ -0,0 +1,583 @@
+/**
+ * PAI Memory Query Language
+ *
+ * Parses search input for `MemoryDatabase.ts search` into an AST and compiles
+ * it to a safe FTS5 MATCH expression plus parameterised SQL filters, e.g.
+ *
+ *   auth "rate limit" -draft type:learning tag:#security rating>=7
+ *   since:2026-09-01 importance:4..5 path:vault/*
+ *
+ * Text:    words, "quoted phrases", prefix*, ( ), AND (implicit), OR, NOT, -term
+ * Filters: type:, tag:, rating, importance, stability (with : = > >= < <= or
+ *          a..b ranges), since:, until: (YYYY-MM-DD), path: (glob)
+ *
+ * Filters apply to the whole query, so they must appear at the top level
+ * (not inside parentheses or OR). A leading - or NOT negates a filter.
+ * Operators are upper case; lower-case "or"/"and"/"not" are plain words.
+ * Every term is quoted before it reaches FTS5, so hyphens, colons and other
+ * punctuation can no longer cause SQL errors.
+ *
+ * The same AST (parsed without filters) drives MemorySearch.ts through
+ * compileTextMatcher(), which matches whole documents by substring or whole
+ * word. Terms are always literal text there; the matcher's prefilter lets
+ * the index skip documents that cannot match (memories_fts for whole words,
+ * instr() for substrings, which FTS5 tokens cannot find inside words).
+ */
+
+import type { TermExpansion } from "./types/memory";
+
+export class QueryParseError extends Error {
+  position: number; // 0-based offset into the query
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QueryParseError";
+    this.position = position;
+  }
+}
+
+export type FieldName = "type" | "tag" | "rating" | "importance" | "stability" | "since" | "until" | "path";
+export type Comparison = "=" | ">" | ">=" | "<" | "<=";
+
+export type QueryNode =
+  | { kind: "term"; value: string; prefix: boolean; position: number }
+  | { kind: "phrase"; value: string; position: number }
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode; position: number };
+
+export interface FieldFilter {
+  field: FieldName;
+  op: Comparison | "range";
+  value: string | number;
+  upper?: number; // Upper bound of an a..b range
+  negated: boolean;
+  position: number;
+}
+
+export interface ParsedQuery {
+  text: QueryNode | null; // Full-text part, null when only filters are given
+  filters: FieldFilter[];
+}
+
+export interface CompiledQuery {
+  match: string | null; // FTS5 expression for memories_fts MATCH
+  exclude: string | null; // FTS5 expression whose matches are excluded
+  where: string[]; // SQL conditions on memories m, joined with AND
+  params: (string | number)[];
+  text: string; // Plain words, for embedding and display
+}
+
+const FIELDS: FieldName[] = ["type", "tag", "rating", "importance", "stability", "since", "until", "path"];
+const MEMORY_TYPES = ["learning", "session", "synthesis", "work"];
+const NUMERIC_RANGES: Record<string, [number, number]> = {
+  rating: [1, 10],
+  importance: [1, 5],
+  stability: [1, 5],
+};
+
+type Token =
+  | { type: "word"; value: string; position: number }
+  | { type: "phrase"; value: string; position: number }
+  | { type: "field"; field: FieldName; op: Comparison | ":"; value: string; position: number }
+  | { type: "lparen" | "rparen" | "and" | "or" | "not" | "minus"; position: number };
+
+const FIELD_TOKEN = new RegExp(`^(${FIELDS.join("|")})(>=|<=|>|<|=|:)`, "i");
+
+export interface ParseOptions {
+  fields?: boolean; // Recognise field filters (default true); else "type:x" is a word
+}
+
+// Split input into tokens, keeping offsets for error messages
+export function tokenizeQuery(input: string, options: ParseOptions = {}): Token[] {
+  const fields = options.fields ?? true;
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = input.indexOf('"', start + 1);
+    if (end < 0) throw new QueryParseError("Unclosed quote", start);
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "lparen" : "rparen", position: i });
+      i++;
+    } else if (ch === '"') {
+      const position = i;
+      tokens.push({ type: "phrase", value: readQuoted(i), position });
+    } else if (ch === "-" && i + 1 < input.length && /[^\s-]/.test(input[i + 1]) && (i === 0 || /[\s(]/.test(input[i - 1]))) {
+      tokens.push({ type: "minus", position: i });
+      i++;
+    } else {
+      const position = i;
+      const field = fields ? input.slice(i).match(FIELD_TOKEN) : null;
+      if (field) {
+        i += field[0].length;
+        const value = input[i] === '"' ? readQuoted(i) : readWord();
+        if (!value) throw new QueryParseError(`Missing value for ${field[1]}${field[2]}`, position);
+        tokens.push({ type: "field", field: field[1].toLowerCase() as FieldName, op: field[2] as Comparison | ":", value, position });
+        continue;
+      }
+
+      const word = readWord();
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ type: word.toLowerCase() as "and" | "or" | "not", position });
+      } else {
+        tokens.push({ type: "word", value: word, position });
+      }
+    }
+  }
+
+  return tokens;
+
+  function readWord(): string {
+    const start = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+    return input.slice(start, i);
+  }
+}
+
+// Validate and normalise a field filter token
+function toFilter(token: Extract<Token, { type: "field" }>, negated: boolean): FieldFilter {
+  const { field, value, position } = token;
+  const op = token.op === ":" ? "=" : token.op;
+  const fail = (message: string): never => {
+    throw new QueryParseError(message, position);
+  };
+
+  if (field === "type" || field === "tag" || field === "path") {
+    if (op !== "=") fail(`${field} only supports ${field}:value`);
+    if (field === "type" && !MEMORY_TYPES.includes(value.toLowerCase())) {
+      fail(`Unknown type "${value}". Use ${MEMORY_TYPES.join(", ")}`);
+    }
+    return { field, op, value: field === "type" ? value.toLowerCase() : value, negated, position };
+  }
+
+  if (field === "since" || field === "until") {
+    if (op !== "=") fail(`${field} only supports ${field}:YYYY-MM-DD`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+      fail(`Invalid date "${value}" for ${field}. Use YYYY-MM-DD`);
+    }
+    return { field, op, value, negated, position };
+  }
+
+  const [min, max] = NUMERIC_RANGES[field];
+  const parseNumber = (text: string): number => {
+    const n = Number(text);
+    if (text === "" || !Number.isFinite(n)) fail(`${field} expects a number, got "${text}"`);
+    if (n < min || n > max) fail(`${field} must be between ${min} and ${max}, got ${n}`);
+    return n;
+  };
+
+  const range = value.match(/^(.*)\.\.(.*)$/);
+  if (range) {
+    if (op !== "=") fail(`Use ${field}:a..b for ranges`);
+    const lower = parseNumber(range[1]);
+    const upper = parseNumber(range[2]);
+    if (lower > upper) fail(`Empty range ${value}`);
+    return { field, op: "range", value: lower, upper, negated, position };
+  }
+
+  return { field, op, value: parseNumber(value), negated, position };
+}
+
+// Pull top-level field filters (with a preceding - or NOT) out of the token
+// stream. Filters inside parentheses or next to OR are rejected, since they
+// always apply to the whole query.
+function extractFilters(tokens: Token[]): { textTokens: Token[]; filters: FieldFilter[] } {
+  const textTokens: Token[] = [];
+  const filters: FieldFilter[] = [];
+  let depth = 0;
+  let skipAnd = false; // An AND joining a filter to the text goes with it
+
+  tokens.forEach((token, i) => {
+    if (token.type === "lparen") depth++;
+    if (token.type === "rparen") depth--;
+    if (token.type !== "field") {
+      if (!(skipAnd && token.type === "and")) textTokens.push(token);
+      skipAnd = false;
+      return;
+    }
+
+    if (depth > 0) {
+      throw new QueryParseError("Field filters apply to the whole query; move them outside the parentheses", token.position);
+    }
+
+    let negated = false;
+    let previous = textTokens[textTokens.length - 1];
+    while (previous && (previous.type === "minus" || previous.type === "not")) {
+      negated = !negated;
+      textTokens.pop();
+      previous = textTokens[textTokens.length - 1];
+    }
+    if (previous?.type === "or" || tokens[i + 1]?.type === "or") {
+      throw new QueryParseError("Field filters cannot be combined with OR; they apply to the whole query", token.position);
+    }
+
+    if (previous?.type === "and") textTokens.pop();
+    else skipAnd = true;
+
+    filters.push(toFilter(token, negated));
+  });
+
+  return { textTokens, filters };
+}
+
+// Recursive-descent parser for the text part:
+//   or    := and (OR and)*
+//   and   := unary (AND? unary)*
+//   unary := (NOT | -) unary | primary
+//   primary := ( or ) | phrase | word
+export function parseQuery(input: string, options: ParseOptions = {}): ParsedQuery {
+  const { textTokens: tokens, filters } = extractFilters(tokenizeQuery(input, options));
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const end = () => (tokens[pos] ? tokens[pos].position : input.length);
+
+  function parseOr(): QueryNode | null {
+    const first = parseAnd();
+    const children = first ? [first] : [];
+    while (peek()?.type === "or") {
+      const orToken = tokens[pos++];
+      const next = parseAnd();
+      if (!next || children.length === 0) {
+        throw new QueryParseError("OR needs a search term on both sides", orToken.position);
+      }
+      children.push(next);
+    }
+    return children.length > 1 ? { kind: "or", children } : children[0] || null;
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length && peek().type !== "or" && peek().type !== "rparen") {
+      if (peek().type === "and") {
+        const andToken = tokens[pos++];
+        const next = peek();
+        if (children.length === 0 || !next || next.type === "or" || next.type === "rparen" || next.type === "and") {
+          throw new QueryParseError("AND needs a search term on both sides", andToken.position);
+        }
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    return children.length > 1 ? { kind: "and", children } : children[0] || null;
+  }
+
+  function parseUnary(): QueryNode {
+    const token = peek();
+    if (token.type === "not" || token.type === "minus") {
+      pos++;
+      if (!peek() || peek().type === "rparen" || peek().type === "or") {
+        throw new QueryParseError(`${token.type === "not" ? "NOT" : "-"} needs something to exclude`, token.position);
+      }
+      return { kind: "not", child: parseUnary(), position: token.position };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[pos++];
+    switch (token.type) {
+      case "lparen": {
+        const inner = parseOr();
+        if (peek()?.type !== "rparen") throw new QueryParseError("Missing closing parenthesis", token.position);
+        pos++;
+        if (!inner) throw new QueryParseError("Empty parentheses", token.position);
+        return inner;
+      }
+      case "rparen":
+        throw new QueryParseError("Unexpected closing parenthesis", token.position);
+      case "phrase":
+        if (!token.value.trim()) throw new QueryParseError("Empty phrase", token.position);
+        return { kind: "phrase", value: token.value, position: token.position };
+      case "word": {
+        const prefix = token.value.length > 1 && token.value.endsWith("*");
+        return { kind: "term", value: prefix ? token.value.slice(0, -1) : token.value, prefix, position: token.position };
+      }
+      default:
+        throw new QueryParseError(`Unexpected ${token.type.toUpperCase()}`, token.position);
+    }
+  }
+
+  const text = parseOr();
+  if (pos < tokens.length) {
+    throw new QueryParseError("Unexpected closing parenthesis", end());
+  }
+  if (!text && filters.length === 0) {
+    throw new QueryParseError("Empty query", 0);
+  }
+
+  return { text, filters };
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Compile a text node to FTS5. Unary NOT has no FTS5 form, so it is folded
+// into the surrounding AND as "(positives) NOT (negatives)".
+function toFts(node: QueryNode): string {
+  switch (node.kind) {
+    case "term":
+      return node.prefix ? `${quote(node.value)}*` : quote(node.value);
+    case "phrase":
+      return quote(node.value);
+    case "or":
+      return `(${node.children.map(toFts).join(" OR ")})`;
+    case "not":
+      throw new QueryParseError("NOT needs a term to exclude from, e.g. auth NOT draft", node.position);
+    case "and": {
+      const positives = node.children.filter((c) => c.kind !== "not");
+      const negatives = node.children.filter((c) => c.kind === "not") as Extract<QueryNode, { kind: "not" }>[];
+      if (positives.length === 0) return toFts(negatives[0]);
+      const included = positives.length > 1 ? `(${positives.map(toFts).join(" AND ")})` : toFts(positives[0]);
+      if (negatives.length === 0) return included;
+      return `(${included} NOT (${negatives.map((n) => toFts(n.child)).join(" OR ")}))`;
+    }
+  }
+}
+
+// Plain words of the positive text, e.g. for embeddings
+function plainText(node: QueryNode | null): string {
+  if (!node) return "";
+  switch (node.kind) {
+    case "term":
+    case "phrase":
+      return node.value;
+    case "not":
+      return "";
+    default:
+      return node.children.map(plainText).filter(Boolean).join(" ");
+  }
+}
+
+function filterSql(filter: FieldFilter): { sql: string; params: (string | number)[] } {
+  const column = `m.${filter.field}`;
+  switch (filter.field) {
+    case "type":
+      return { sql: "m.type = ?", params: [filter.value] };
+    case "tag": {
+      const tag = String(filter.value).replace(/^#/, "").replace(/[\\%_]/g, "\\$&");
+      return { sql: "(' ' || m.tags || ' ') LIKE ? ESCAPE '\\'", params: [`% #${tag} %`] };
+    }
+    case "path": {
+      // Relative patterns match anywhere in the stored path
+      const pattern = String(filter.value);
+      const anchored = /^(~\/|\/|\*)/.test(pattern);
+      return anchored
+        ? { sql: "m.file_path GLOB ?", params: [pattern] }
+        : { sql: "(m.file_path GLOB ? OR m.file_path GLOB ?)", params: [pattern, `*/${pattern}`] };
+    }
+    case "since":
+      return { sql: "date(m.timestamp) >= ?", params: [filter.value] };
+    case "until":
+      return { sql: "date(m.timestamp) <= ?", params: [filter.value] };
+    default:
+      if (filter.op === "range") {
+        return { sql: `${column} BETWEEN ? AND ?`, params: [filter.value, filter.upper!] };
+      }
+      return { sql: `${column} ${filter.op} ?`, params: [filter.value] };
+  }
+}
+
+export function compileQuery(parsed: ParsedQuery): CompiledQuery {
+  const compiled: CompiledQuery = { match: null, exclude: null, where: [], params: [], text: plainText(parsed.text) };
+
+  if (parsed.text) {
+    // Top-level exclusions are applied in SQL, so semantic search honours
+    // them too; nested ones ("a OR (b -c)") stay in the FTS5 expression
+    const node = parsed.text;
+    const parts = node.kind === "and" ? node.children : [node];
+    const negatives = parts.filter((c) => c.kind === "not") as Extract<QueryNode, { kind: "not" }>[];
+    const positives = parts.filter((c) => c.kind !== "not");
+
+    if (positives.length === 0 && parsed.filters.length === 0) {
+      throw new QueryParseError("Query only excludes terms; add a term or filter to search for", negatives[0].position);
+    }
+    if (positives.length > 0) {
+      compiled.match = toFts(positives.length > 1 ? { kind: "and", children: positives } : positives[0]);
+    }
+    if (negatives.length > 0) {
+      compiled.exclude = negatives.map((n) => toFts(n.child)).join(" OR ");
+    }
+  }
+
+  for (const filter of parsed.filters) {
+    const { sql, params } = filterSql(filter);
+    compiled.where.push(filter.negated ? `NOT COALESCE(${sql}, 0)` : sql);
+    compiled.params.push(...params);
+  }
+
+  return compiled;
+}
+
+export type MatchMode = "substring" | "word";
+
+export type TextLeaf = Extract<QueryNode, { kind: "term" | "phrase" }>;
+
+// SQL condition on memories m that every matching document meets (a
+// superset of the matches)
+export interface Prefilter {
+  sql: string;
+  params: string[];
+}
+
+// Document-level matcher for plain text (see MemorySearch.ts)
+export interface TextMatcher {
+  matches: (content: string) => boolean;
+  pattern: RegExp | null; // Every included term (global), for finding and highlighting lines
+  terms: string[]; // Included terms and phrases, as written in the query
+  count: (text: string) => number[]; // Matches of each of terms in text, for ranking
+  prefilter: Prefilter | null; // Necessary condition on the whole query, null if there is none
+  termFilters: (Prefilter | null)[]; // Necessary condition on each of terms, for document frequencies
+  // Highlight pattern and expansions for one matching document, when they
+  // depend on the document (fuzzy matching)
+  expand?: (content: string) => { pattern: RegExp | null; expansions: TermExpansion[] };
+}
+
+// Letters, digits and _ make up words; a whole-word match may not touch them
+const WORD_BEFORE = "(?<![\\p{L}\\p{N}_])";
+const WORD_AFTER = "(?![\\p{L}\\p{N}_])";
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Regex source of a term or phrase. Phrase words may be split by any
+// whitespace, including line breaks.
+export function leafSource(node: TextLeaf, mode: MatchMode): string {
+  const words = node.value.trim().split(/\s+/).map(escapeRegExp);
+  const body = words.join("\\s+");
+  if (mode === "substring") return body;
+  const prefix = node.kind === "term" && node.prefix;
+  return `${WORD_BEFORE}${body}${prefix ? "" : WORD_AFTER}`;
+}
+
+// Terms and phrases of a query, each with whether it is excluded
+export function textLeaves(node: QueryNode, negated: boolean = false): { leaf: TextLeaf; negated: boolean }[] {
+  switch (node.kind) {
+    case "term":
+    case "phrase":
+      return [{ leaf: node, negated }];
+    case "not":
+      return textLeaves(node.child, !negated);
+    default:
+      return node.children.flatMap((child) => textLeaves(child, negated));
+  }
+}
+
+// Evaluate the boolean structure of a query, given a test for each leaf
+export function evaluateText(node: QueryNode, test: (leaf: TextLeaf) => boolean): boolean {
+  switch (node.kind) {
+    case "term":
+    case "phrase":
+      return test(node);
+    case "not":
+      return !evaluateText(node.child, test);
+    case "and":
+      return node.children.every((child) => evaluateText(child, test));
+    case "or":
+      return node.children.some((child) => evaluateText(child, test));
+  }
+}
+
+// A document query needs something to look for, not only exclusions
+export function requireIncludedTerm(node: QueryNode): void {
+  const parts = node.kind === "and" ? node.children : [node];
+  const first = parts.find((part) => part.kind === "not") as Extract<QueryNode, { kind: "not" }> | undefined;
+  if (first && parts.every((part) => part.kind === "not")) {
+    throw new QueryParseError("Query only excludes terms; add a term to search for", first.position);
+  }
+}
+
+// Condition on one term or phrase. Whole words are looked up in the content
+// column of memories_fts: every token of the leaf must appear there (as a
+// phrase), which holds for every whole-word match. Substrings can start
+// inside a token, so they use instr() on the content instead; lower() only
+// folds ASCII, so other words give no condition.
+function leafPrefilter(node: TextLeaf, mode: MatchMode): Prefilter | null {
+  if (mode === "word") {
+    if (!/[\p{L}\p{N}]/u.test(node.value)) return null;
+    const prefix = node.kind === "term" && node.prefix ? "*" : "";
+    return {
+      sql: "m.rowid IN (SELECT rowid FROM memories_fts WHERE memories_fts MATCH ?)",
+      params: [`content : ${quote(node.value)}${prefix}`],
+    };
+  }
+
+  const words = node.value.trim().split(/\s+/).filter((word) => /^[\x20-\x7e]+$/.test(word));
+  if (words.length === 0) return null;
+  return {
+    sql: words.map(() => "instr(lower(m.content), ?) > 0").join(" AND "),
+    params: words.map((word) => word.toLowerCase()),
+  };
+}
+
+// Condition on a whole query, from the conditions on its leaves. NOT gives
+// none; an OR only has one if all of its branches do.
+function prefilterSql(node: QueryNode, leaf: (node: TextLeaf) => Prefilter | null): Prefilter | null {
+  switch (node.kind) {
+    case "term":
+    case "phrase":
+      return leaf(node);
+    case "not":
+      return null;
+    case "and":
+    case "or": {
+      const parts = node.children.map((child) => prefilterSql(child, leaf));
+      const known = parts.filter((part) => part !== null) as Prefilter[];
+      if (node.kind === "or" ? known.length < parts.length : known.length === 0) return null;
+      return {
+        sql: known.map((part) => `(${part.sql})`).join(node.kind === "or" ? " OR " : " AND "),
+        params: known.flatMap((part) => part.params),
+      };
+    }
+  }
+}
+
+// Non-empty matches of a global regex
+export function countMatches(text: string, pattern: RegExp): number {
+  let count = 0;
+  for (const match of text.matchAll(pattern)) if (match[0] !== "") count++;
+  return count;
+}
+
+// Compile the text part of a query to a document matcher. Terms are case
+// insensitive; NOT may appear anywhere, since documents are tested in code.
+export function compileTextMatcher(node: QueryNode, mode: MatchMode): TextMatcher {
+  requireIncludedTerm(node);
+
+  const leaves = new Map<string, RegExp>();
+  const included = new Map<string, { term: string; pattern: RegExp; filter: Prefilter | null }>();
+  for (const { leaf, negated } of textLeaves(node)) {
+    const source = leafSource(leaf, mode);
+    if (!leaves.has(source)) leaves.set(source, new RegExp(source, "iu"));
+    if (!negated && !included.has(source)) {
+      included.set(source, { term: leaf.value, pattern: new RegExp(source, "giu"), filter: leafPrefilter(leaf, mode) });
+    }
+  }
+
+  // Longest first, so a phrase wins over a term inside it
+  const alternatives = [...included.keys()].sort((a, b) => b.length - a.length);
+  return {
+    matches: (content) => evaluateText(node, (leaf) => leaves.get(leafSource(leaf, mode))!.test(content)),
+    pattern: alternatives.length > 0 ? new RegExp(alternatives.join("|"), "giu") : null,
+    terms: [...included.values()].map(({ term }) => term),
+    count: (text) => [...included.values()].map(({ pattern }) => countMatches(text, pattern)),
+    prefilter: prefilterSql(node, (leaf) => leafPrefilter(leaf, mode)),
+    termFilters: [...included.values()].map(({ filter }) => filter),
+  };
+}
+
+// Show the query with a caret under the error position
+export function formatQueryError(input: string, error: QueryParseError): string {
+  return `${error.message}\n  ${input}\n  ${" ".repeat(error.position)}^`;
+}
@@ -0,0 +1,185 @@
+/**
+ * PAI Memory Ranking
+ *
+ * Relevance score of a MemorySearch.ts result:
+ *
+ *   score = bm25 × recency × rating × type
+ *
+ *   - bm25: BM25 of the query terms over the searched documents. Rare terms
+ *     weigh more than common ones, repeats add less and less, and long
+ *     documents are normalized against the average length, so a long summary
+ *     that mentions a word twenty times does not bury a short note about it.
+ *     Matches in the title and other headings count extra (fieldBoosts).
+ *   - recency: 1 + weight × 0.5^(age in days / halfLifeDays), 1 if undated
+ *   - rating: 1 + weight × (rating - 5.5) / 4.5 for a 1-10 rating, else 1
+ *   - type: typeWeights entry for the source label, else 1
+ *
+ * Weights are configured in memory-ranking.json (PAI_MEMORY_RANKING if set,
+ * else the active profile's own file, else the one next to this file).
+ * `MemorySearch.ts --explain` prints every factor, for tuning them.
+ */
+
+import * as fs from "fs";
+import { profileConfigFile } from "./MemoryPaths";
+import type { LearningDocument, ScoreExplanation } from "./types/memory";
+
+export const RANKING_FILE = process.env.PAI_MEMORY_RANKING || profileConfigFile("memory-ranking.json");
+
+export interface RankingConfig {
+  bm25: { k1: number; b: number }; // Term frequency saturation, length normalization (0-1)
+  fieldBoosts: { title: number; heading: number }; // Extra weight of a match in the title / a heading
+  recency: { weight: number; halfLifeDays: number };
+  rating: { weight: number };
+  typeWeights: Record<string, number>; // Source label -> weight
+}
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  bm25: { k1: 1.2, b: 0.75 },
+  fieldBoosts: { title: 3, heading: 1 },
+  recency: { weight: 0.5, halfLifeDays: 90 },
+  rating: { weight: 0.3 },
+  typeWeights: {},
+};
+
+// Term statistics of the searched documents
+export interface CorpusStats {
+  documents: number;
+  totalLength: number; // Characters
+  documentFrequency: number[]; // Documents containing each query term
+}
+
+// What a document contributes to its own score
+export interface DocumentTerms {
+  counts: number[]; // Matches of each query term in the whole document
+  title: number[]; // ... in the title
+  headings: number[]; // ... in other headings
+  length: number; // Characters
+}
+
+const HEADING = /^#{1,6}[ \t]+(.+)$/gm;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requireNumber(file: string, name: string, value: unknown, min: number, max: number = Infinity): void {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    const range = max === Infinity ? `${min} or more` : `from ${min} to ${max}`;
+    throw new Error(`${file}: ${name} must be a number ${range}`);
+  }
+}
+
+// Load and validate memory-ranking.json, falling back to the defaults
+export function loadRankingConfig(file: string = RANKING_FILE): RankingConfig {
+  if (!fs.existsSync(file)) return DEFAULT_RANKING_CONFIG;
+
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const config: RankingConfig = {
+    bm25: { ...DEFAULT_RANKING_CONFIG.bm25, ...raw.bm25 },
+    fieldBoosts: { ...DEFAULT_RANKING_CONFIG.fieldBoosts, ...raw.fieldBoosts },
+    recency: { ...DEFAULT_RANKING_CONFIG.recency, ...raw.recency },
+    rating: { ...DEFAULT_RANKING_CONFIG.rating, ...raw.rating },
+    typeWeights: { ...DEFAULT_RANKING_CONFIG.typeWeights, ...raw.typeWeights },
+  };
+
+  requireNumber(file, "bm25.k1", config.bm25.k1, 0);
+  requireNumber(file, "bm25.b", config.bm25.b, 0, 1);
+  requireNumber(file, "fieldBoosts.title", config.fieldBoosts.title, 0);
+  requireNumber(file, "fieldBoosts.heading", config.fieldBoosts.heading, 0);
+  requireNumber(file, "recency.weight", config.recency.weight, 0);
+  if (typeof config.recency.halfLifeDays !== "number" || !(config.recency.halfLifeDays > 0)) {
+    throw new Error(`${file}: recency.halfLifeDays must be a number above 0`);
+  }
+  requireNumber(file, "rating.weight", config.rating.weight, 0, 1);
+  for (const [label, weight] of Object.entries(config.typeWeights)) {
+    requireNumber(file, `typeWeights.${label}`, weight, 0);
+  }
+
+  return config;
+}
+
+// Title (front-matter or first "# " heading) and the text of the other
+// headings, for field boosts
+export function documentFields(content: string, learning: LearningDocument): { title: string; headings: string } {
+  const title = learning.title ?? "";
+  const headings: string[] = [];
+  let titleSeen = false;
+  for (const match of content.matchAll(HEADING)) {
+    const text = match[1].trim();
+    if (!titleSeen && text === title) {
+      titleSeen = true;
+      continue;
+    }
+    headings.push(text);
+  }
+  return { title, headings: headings.join("\n") };
+}
+
+export function createCorpusStats(terms: number): CorpusStats {
+  return { documents: 0, totalLength: 0, documentFrequency: new Array(terms).fill(0) };
+}
+
+// Count a searched document (matching or not) in the statistics
+export function addToCorpus(stats: CorpusStats, counts: number[], length: number): void {
+  stats.documents++;
+  stats.totalLength += length;
+  counts.forEach((count, i) => {
+    if (count > 0) stats.documentFrequency[i]++;
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Score a matching document. rating is its 1-10 rating, date its document date.
+export function scoreDocument(
+  terms: string[],
+  document: DocumentTerms,
+  stats: CorpusStats,
+  type: string,
+  rating: number | null,
+  date: Date | null,
+  config: RankingConfig,
+  now: Date = new Date()
+): { score: number; explanation: ScoreExplanation } {
+  const { k1, b } = config.bm25;
+  const averageLength = stats.documents > 0 ? stats.totalLength / stats.documents : 0;
+  const lengthNorm = averageLength > 0 ? 1 - b + b * (document.length / averageLength) : 1;
+
+  let bm25 = 0;
+  const termScores = terms.map((term, i) => {
+    const documentFrequency = stats.documentFrequency[i] ?? 0;
+    const idf = Math.log(1 + (stats.documents - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    const frequency =
+      document.counts[i] + config.fieldBoosts.title * document.title[i] + config.fieldBoosts.heading * document.headings[i];
+    const score = frequency > 0 ? (idf * frequency * (k1 + 1)) / (frequency + k1 * lengthNorm) : 0;
+    bm25 += score;
+    return {
+      term,
+      frequency: document.counts[i],
+      title: document.title[i],
+      headings: document.headings[i],
+      documentFrequency,
+      idf: round(idf),
+      score: round(score),
+    };
+  });
+
+  const ageDays = date ? Math.max(0, (now.getTime() - date.getTime()) / DAY_MS) : null;
+  const recency = ageDays === null ? 1 : 1 + config.recency.weight * 0.5 ** (ageDays / config.recency.halfLifeDays);
+  const ratingFactor = rating === null ? 1 : 1 + config.rating.weight * ((rating - 5.5) / 4.5);
+  const typeFactor = config.typeWeights[type] ?? 1;
+
+  return {
+    score: bm25 * recency * ratingFactor * typeFactor,
+    explanation: {
+      bm25: round(bm25),
+      recency: round(recency),
+      ageDays: ageDays === null ? null : Math.floor(ageDays),
+      rating: round(ratingFactor),
+      type: typeFactor,
+      length: document.length,
+      averageLength: round(averageLength),
+      documents: stats.documents,
+      terms: termScores,
+    },
+  };
+}
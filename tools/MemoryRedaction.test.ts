@@ -0,0 +1,64 @@
+/**
+ * Tests for redaction at sync time (MemoryRedaction.ts through MemoryDatabase.ts)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import { createTestHome } from "./TestHome";
+import type { TestHome } from "./TestHome";
+
+const ID = "algo_2026-10_2026-10-01-100000_LEARNING_deploy";
+const TOKEN = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+const CONTENT = `# Deploy\n\nAsk bob@example.com for access.\nThe CI token is ${TOKEN} for now.\n`;
+
+let home: TestHome;
+
+beforeEach(() => {
+  home = createTestHome();
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("sync", () => {
+  test("indexes redacted content and records each redaction", () => {
+    const filePath = home.write(".claude/MEMORY/LEARNING/ALGORITHM/2026-10/2026-10-01-100000_LEARNING_deploy.md", CONTENT);
+    expect(home.run("MemoryDatabase.ts", ["sync"]).code).toBe(0);
+
+    const db = new Database(home.path(".claude/MEMORY/memory.db"), { readonly: true });
+    try {
+      const { content } = db.prepare("SELECT content FROM memories WHERE id = ?").get(ID) as { content: string };
+      expect(content).toContain("Ask [REDACTED:email] for access.");
+      expect(content).toContain("The CI token is [REDACTED:github-token] for now.");
+      expect(content).not.toContain("bob@example.com");
+      expect(content).not.toContain(TOKEN);
+
+      const audit = db
+        .prepare("SELECT kind, action, line, fingerprint, preview FROM redactions WHERE memory_id = ? ORDER BY line")
+        .all(ID) as { kind: string; action: string; line: number; fingerprint: string; preview: string }[];
+      expect(audit.map(({ kind, action, line }) => ({ kind, action, line }))).toEqual([
+        { kind: "email", action: "mask", line: 3 },
+        { kind: "github-token", action: "mask", line: 4 },
+      ]);
+      for (const row of audit) {
+        expect(row.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+        expect(row.preview).toMatch(/^.{2}….{2}$/); // Never the value itself
+      }
+    } finally {
+      db.close();
+    }
+
+    // The source file is never modified
+    expect(fs.readFileSync(filePath, "utf-8")).toBe(CONTENT);
+
+    const scan = home.run("MemoryDatabase.ts", ["scan"]);
+    expect(scan.code).toBe(0);
+    expect(scan.stdout).toContain("No sensitive values found in indexed content");
+    expect(scan.stdout).toMatch(/email +1 in 1 memories/);
+    expect(scan.stdout).toMatch(/github-token +1 in 1 memories/);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * PAI Memory Redaction
+ *
+ * Redaction stage between reading a source file and indexing it. Secrets
+ * (AWS keys, GitHub tokens, JWTs, private keys, high-entropy strings),
+ * email addresses, phone numbers and user-defined patterns are masked or
+ * dropped before the content reaches memories, chunks, links or embeddings.
+ * Source files are never modified.
+ *
+ * Rules are configured in memory-redaction.json (PAI_MEMORY_REDACTION if set,
+ * else the active profile's own file, else the one next to this file);
+ * without it every built-in detector masks.
+ * Each redaction is recorded in the redactions table with a fingerprint of
+ * the secret (never the secret itself), and scanMemories finds leaks that
+ * were indexed before a rule existed.
+ */
+
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { profileConfigFile } from "./MemoryPaths";
+
+export const REDACTION_FILE = process.env.PAI_MEMORY_REDACTION || profileConfigFile("memory-redaction.json");
+
+export type RedactionMode = "mask" | "drop";
+
+// Built-in detectors
+const BUILTIN_PATTERNS: Record<string, RegExp> = {
+  "private-key": /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+  "aws-access-key": /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  "aws-secret-key": /\baws_secret_access_key\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}\b/gi,
+  "github-token": /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  jwt: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  phone: /(?<![\w.+-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}(?![\w-]|\.\d)/g,
+};
+
+export const BUILTIN_DETECTORS = [...Object.keys(BUILTIN_PATTERNS), "high-entropy"];
+
+export interface CustomPattern {
+  name: string; // Recorded as the redaction kind
+  pattern: string; // JavaScript regular expression
+  flags?: string; // e.g. "i"; "g" is always added
+  mode?: RedactionMode; // Defaults to the global mode
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  mode: RedactionMode; // mask: replace with [REDACTED:kind]; drop: blank the whole line
+  detectors: Record<string, boolean | RedactionMode>; // false disables, a mode overrides
+  entropy: { minLength: number; threshold: number }; // Bits per character
+  patterns: CustomPattern[];
+  allow: string[]; // Literal values never redacted, e.g. a public support address
+}
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  enabled: true,
+  mode: "mask",
+  detectors: {},
+  entropy: { minLength: 24, threshold: 4.0 },
+  patterns: [],
+  allow: [],
+};
+
+export interface Finding {
+  kind: string;
+  mode: RedactionMode;
+  start: number;
+  end: number;
+  line: number; // 1-based line of the first character
+  value: string;
+}
+
+// A redaction as stored in the audit table
+export interface Redaction {
+  kind: string;
+  action: RedactionMode;
+  line: number;
+  fingerprint: string; // First 16 hex chars of the secret's SHA-256
+  preview: string; // e.g. "AK…LE"; never the full value
+}
+
+interface Rule {
+  kind: string;
+  mode: RedactionMode;
+  pattern: RegExp | null; // null for the entropy detector
+}
+
+export interface Redactor {
+  config: RedactionConfig;
+  rules: Rule[];
+}
+
+// Load and validate memory-redaction.json, falling back to the defaults
+export function loadRedactionConfig(file: string = REDACTION_FILE): RedactionConfig {
+  if (!fs.existsSync(file)) return DEFAULT_REDACTION_CONFIG;
+
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const config: RedactionConfig = {
+    ...DEFAULT_REDACTION_CONFIG,
+    ...raw,
+    entropy: { ...DEFAULT_REDACTION_CONFIG.entropy, ...raw.entropy },
+  };
+
+  const modes = ["mask", "drop"];
+  if (!modes.includes(config.mode)) {
+    throw new Error(`${file}: "mode" must be mask or drop`);
+  }
+  for (const [name, setting] of Object.entries(config.detectors ?? {})) {
+    if (!BUILTIN_DETECTORS.includes(name)) {
+      throw new Error(`${file}: unknown detector "${name}" (use ${BUILTIN_DETECTORS.join(", ")})`);
+    }
+    if (typeof setting !== "boolean" && !modes.includes(setting)) {
+      throw new Error(`${file}: detectors.${name} must be true, false, "mask" or "drop"`);
+    }
+  }
+  (config.patterns ?? []).forEach((entry, i) => {
+    if (typeof entry.name !== "string" || !entry.name || typeof entry.pattern !== "string") {
+      throw new Error(`${file}: patterns[${i}] needs a "name" and a "pattern"`);
+    }
+    if (entry.mode !== undefined && !modes.includes(entry.mode)) {
+      throw new Error(`${file}: patterns[${i}].mode must be mask or drop`);
+    }
+    try {
+      new RegExp(entry.pattern, entry.flags);
+    } catch (error) {
+      throw new Error(`${file}: patterns[${i}] (${entry.name}): ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  return config;
+}
+
+export function createRedactor(config: RedactionConfig): Redactor {
+  const rules: Rule[] = [];
+  const modeOf = (setting: boolean | RedactionMode | undefined) =>
+    typeof setting === "string" ? setting : config.mode;
+
+  for (const [kind, pattern] of Object.entries(BUILTIN_PATTERNS)) {
+    if (config.detectors[kind] === false) continue;
+    rules.push({ kind, mode: modeOf(config.detectors[kind]), pattern });
+  }
+  if (config.detectors["high-entropy"] !== false) {
+    rules.push({ kind: "high-entropy", mode: modeOf(config.detectors["high-entropy"]), pattern: null });
+  }
+  for (const entry of config.patterns) {
+    const flags = (entry.flags ?? "").replace("g", "") + "g";
+    rules.push({ kind: entry.name, mode: entry.mode ?? config.mode, pattern: new RegExp(entry.pattern, flags) });
+  }
+
+  return { config, rules };
+}
+
+let cachedRedactor: Redactor | null = null;
+
+// Redactor for the configured rules, loaded once per process
+export function getRedactor(): Redactor {
+  if (!cachedRedactor) cachedRedactor = createRedactor(loadRedactionConfig());
+  return cachedRedactor;
+}
+
+// Shannon entropy in bits per character
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Share of adjacent characters that switch between lower case, upper case
+// and digits: about 0.6 for random strings, low for CamelCase names
+function classSwitchRate(text: string): number {
+  const classOf = (c: string) => (/[a-z]/.test(c) ? 0 : /[A-Z]/.test(c) ? 1 : /\d/.test(c) ? 2 : 3);
+  let switches = 0;
+  for (let i = 1; i < text.length; i++) if (classOf(text[i]) !== classOf(text[i - 1])) switches++;
+  return switches / Math.max(1, text.length - 1);
+}
+
+// Random-looking tokens: long, mixed case with digits, and high entropy.
+// Hex hashes, paths, file names and CamelCase names do not qualify.
+function entropyMatches(content: string, config: RedactionConfig): { start: number; end: number }[] {
+  const matches: { start: number; end: number }[] = [];
+  const token = new RegExp(`[A-Za-z0-9+/_=-]{${config.entropy.minLength},}`, "g");
+  for (const match of content.matchAll(token)) {
+    const value = match[0];
+    // The random part of a key like sk_live_... is one long segment; ids,
+    // dates and paths are made of short ones
+    const longest = Math.max(...value.split(/[-_/.]/).map((part) => part.length));
+    if (longest < Math.min(16, config.entropy.minLength)) continue;
+    if (!/[a-z]/.test(value) || !/[A-Z]/.test(value) || !/\d/.test(value)) continue;
+    if (classSwitchRate(value) < 0.45) continue;
+    if (shannonEntropy(value) < config.entropy.threshold) continue;
+    matches.push({ start: match.index!, end: match.index! + value.length });
+  }
+  return matches;
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (content.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+// All sensitive values in the content, earliest first, without overlaps
+// (the first rule to claim a span wins)
+export function findSecrets(content: string, redactor: Redactor): Finding[] {
+  const { config } = redactor;
+  if (!config.enabled) return [];
+
+  const candidates: Omit<Finding, "line">[] = [];
+  for (const rule of redactor.rules) {
+    const spans = rule.pattern
+      ? [...content.matchAll(rule.pattern)].map((m) => ({ start: m.index!, end: m.index! + m[0].length }))
+      : entropyMatches(content, config);
+    for (const { start, end } of spans) {
+      const value = content.slice(start, end);
+      if (!value || config.allow.includes(value)) continue;
+      // Earlier redactions are not secrets (keeps redaction idempotent)
+      if (value.includes("[REDACTED:")) continue;
+      if (rule.kind === "phone" && value.replace(/\D/g, "").length < 9) continue;
+      candidates.push({ kind: rule.kind, mode: rule.mode, start, end, value });
+    }
+  }
+
+  const findings: Finding[] = [];
+  for (const candidate of candidates) {
+    if (findings.some((f) => candidate.start < f.end && f.start < candidate.end)) continue;
+    findings.push({ ...candidate, line: lineAt(content, candidate.start) });
+  }
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+export function fingerprint(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+export function preview(value: string): string {
+  const flat = value.replace(/\s+/g, " ");
+  return flat.length >= 12 ? `${flat.slice(0, 2)}…${flat.slice(-2)}` : "…";
+}
+
+// Mask or drop every finding. Line numbers are preserved: masks keep the
+// newlines of multi-line secrets, and dropped lines are left blank.
+export function redactContent(content: string, redactor: Redactor): { content: string; redactions: Redaction[] } {
+  const findings = findSecrets(content, redactor);
+  if (findings.length === 0) return { content, redactions: [] };
+
+  let result = "";
+  let cursor = 0;
+  for (const finding of findings) {
+    result += content.slice(cursor, finding.start);
+    const newlines = "\n".repeat((finding.value.match(/\n/g) || []).length);
+    result += finding.mode === "mask" ? `[REDACTED:${finding.kind}]${newlines}` : `\u0000${newlines}`;
+    cursor = finding.end;
+  }
+  result += content.slice(cursor);
+
+  // Blank every line that held a dropped value
+  result = result
+    .split("\n")
+    .map((line) => (line.includes("\u0000") ? "" : line))
+    .join("\n");
+
+  return {
+    content: result,
+    redactions: findings.map((f) => ({
+      kind: f.kind,
+      action: f.mode,
+      line: f.line,
+      fingerprint: fingerprint(f.value),
+      preview: preview(f.value),
+    })),
+  };
+}
+
+// Replace the audit rows of a memory
+export function writeRedactions(db: Database, memoryId: string, redactions: Redaction[]): void {
+  db.prepare("DELETE FROM redactions WHERE memory_id = ?").run(memoryId);
+  const insert = db.prepare(`
+    INSERT INTO redactions (memory_id, kind, action, line, fingerprint, preview)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  for (const r of redactions) {
+    insert.run(memoryId, r.kind, r.action, r.line, r.fingerprint, r.preview);
+  }
+}
+
+export interface Leak extends Redaction {
+  memory_id: string;
+  file_path: string;
+  archived: boolean;
+}
+
+// Sensitive values still present in indexed content (indexed before a rule
+// existed, or with redaction disabled)
+export function scanMemories(db: Database, redactor: Redactor): Leak[] {
+  const rows = db.prepare("SELECT id, file_path, content, archived FROM memories ORDER BY file_path").all() as any[];
+  const leaks: Leak[] = [];
+  for (const row of rows) {
+    for (const finding of findSecrets(row.content, { ...redactor, config: { ...redactor.config, enabled: true } })) {
+      leaks.push({
+        memory_id: row.id,
+        file_path: row.file_path,
+        archived: Boolean(row.archived),
+        kind: finding.kind,
+        action: finding.mode,
+        line: finding.line,
+        fingerprint: fingerprint(finding.value),
+        preview: preview(finding.value),
+      });
+    }
+  }
+  return leaks;
+}
+
+// Redactions recorded at index time, counted by kind
+export function getRedactionSummary(db: Database): { kind: string; count: number; memories: number }[] {
+  return db.prepare(`
+    SELECT kind, COUNT(*) AS count, COUNT(DISTINCT memory_id) AS memories
+    FROM redactions
+    GROUP BY kind
+    ORDER BY count DESC
+  `).all() as any[];
+}
@@ -0,0 +1,141 @@
+/**
+ * Tests for MemorySearch.ts
+ *
+ * Each test builds a scratch HOME with a few memory files and runs the real
+ * tools against it, so both the index and the file scan are covered.
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import { createTestHome } from "./TestHome";
+import type { TestHome, ToolResult } from "./TestHome";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let home: TestHome;
+
+function run(tool: string, args: string[]): ToolResult {
+  return home.run(tool, args);
+}
+
+function write(relPath: string, content: string, ageDays: number = 0): string {
+  return home.write(relPath, content, ageDays);
+}
+
+function sync(): void {
+  const result = run("MemoryDatabase.ts", ["sync"]);
+  expect(result.code).toBe(0);
+}
+
+function search(query: string, ...flags: string[]): { backend: string; files: string[] } {
+  const result = run("MemorySearch.ts", [query, "--json", ...flags]);
+  expect(result.code).toBe(0);
+  const output = JSON.parse(result.stdout);
+  return { backend: output.backend, files: output.results.map((r: { file: string }) => r.file) };
+}
+
+beforeEach(() => {
+  home = createTestHome();
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("merged duplicates", () => {
+  const learning = (title: string) =>
+    `# ${title}\n\n**Rating:** 7/10\n\nRotate refresh tokens on every use and revoke the whole family on reuse.\n`;
+
+  test("are found only through their canonical memory", () => {
+    write(".claude/MEMORY/LEARNING/ALGORITHM/2026-10/2026-10-01-100000_LEARNING_tokens.md", learning("Token rotation"));
+    write(".claude/MEMORY/LEARNING/ALGORITHM/2026-10/2026-10-02-100000_LEARNING_tokens-again.md", learning("Token rotation again"));
+    sync();
+    expect(search("refresh tokens").files).toHaveLength(2);
+
+    const merged = run("MemoryDatabase.ts", [
+      "merge",
+      "algo_2026-10_2026-10-01-100000_LEARNING_tokens",
+      "algo_2026-10_2026-10-02-100000_LEARNING_tokens-again",
+    ]);
+    expect(merged.code).toBe(0);
+
+    const expected = ["LEARNING/ALGORITHM/2026-10/2026-10-01-100000_LEARNING_tokens.md"];
+    const indexed = search("refresh tokens");
+    expect(indexed.backend).toBe("index");
+    expect(indexed.files).toEqual(expected);
+    expect(search("refresh tokens", "--no-index").files).toEqual(expected);
+  });
+});
+
+describe("index and file scan", () => {
+  test("find the same documents", () => {
+    const dir = ".claude/MEMORY/LEARNING/SYSTEM/2026-10";
+    write(`${dir}/2026-10-01-100000_LEARNING_oauth.md`, "# OAuth\n\nRotate refresh tokens on every use.\n");
+    write(`${dir}/2026-10-02-100000_LEARNING_limits.md`, "# Limits\n\nA token bucket per rate\nlimit key.\n");
+    write(`${dir}/2026-10-03-100000_LEARNING_hooks.md`, "# Hooks\n\nHooks run before every tool call.\n");
+    sync();
+
+    const queries: string[][] = [
+      ["auth"], // Inside a word: substrings cannot come from memories_fts
+      ["auth", "--word"],
+      ["token*", "--word"],
+      ['"rate limit"', "--word"], // Phrase across a line break
+      ["refresh OR hooks", "--word"],
+      ["every -hooks"],
+      ["NOT bucket OR auth", "--word"], // No prefilter: every row is tested
+    ];
+    for (const query of queries) {
+      const indexed = search(query[0], ...query.slice(1));
+      expect(indexed.backend).toBe("index");
+      expect(indexed.files).toEqual(search(query[0], ...query.slice(1), "--no-index").files);
+    }
+    expect(search("auth").files).toHaveLength(1);
+    expect(search("auth", "--word").files).toHaveLength(0);
+  });
+});
+
+describe("redacted values", () => {
+  test("are found by the index as by the file scan", () => {
+    const dir = ".claude/MEMORY/LEARNING/SYSTEM/2026-10";
+    write(`${dir}/2026-10-01-100000_LEARNING_contact.md`, "# Contact\n\nAsk bob@example.com about the rotation.\n");
+    write(`${dir}/2026-10-02-100000_LEARNING_rotation.md`, "# Rotation\n\nRotate the keys every quarter.\n");
+    sync();
+
+    for (const query of [["bob@example.com"], ["bob", "--word"], ["example rotation"]]) {
+      const indexed = search(query[0], ...query.slice(1));
+      expect(indexed.backend).toBe("index");
+      expect(indexed.files).toEqual(search(query[0], ...query.slice(1), "--no-index").files);
+    }
+    expect(search("bob@example.com").files).toEqual([`LEARNING/SYSTEM/2026-10/2026-10-01-100000_LEARNING_contact.md`]);
+  });
+});
+
+describe("index freshness", () => {
+  test("journal entries past recencyDays keep the index in use", () => {
+    const entry = write("vault/journal/2026-08-01.md", "# 2026-08-01\n\nSketched the rate limiter with a token bucket.\n");
+    sync();
+
+    // The entry ages out of the source's 30-day window; sync keeps its row
+    const aged = new Date(Date.now() - 40 * DAY_MS);
+    fs.utimesSync(entry, aged, aged);
+    sync();
+
+    const result = search("token bucket");
+    expect(result.backend).toBe("index");
+    expect(result.files).toHaveLength(1);
+  });
+});
+
+describe("profiles", () => {
+  test("an invalid or unknown --profile is an error, not a stack trace", () => {
+    const invalid = run("MemorySearch.ts", ["tokens", "--profile", "../client"]);
+    expect(invalid.code).toBe(1);
+    expect(invalid.stderr).toBe('Error: Invalid profile name "../client" (letters, digits, - and _)\n');
+
+    const unknown = run("MemorySearch.ts", ["tokens", "--profile", "client"]);
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toStartWith('Error: Unknown profile "client"');
+  });
+});
@@ -4,22 +4,79 @@
  *
  * Full-text search across PAI's memory system (sessions, learnings, work).
  *
+ * Searches the same sources MemoryDatabase.ts indexes (memory-sources.json).
+ * When memory.db is fresh (a watcher is running, or every source file is
+ * indexed at its current mtime) the candidates come from the index and only
+ * the matching files are read to show their lines; otherwise every file is
+ * scanned.
+ *
+ * The query is literal text: words, "quoted phrases", AND (implicit), OR,
+ * NOT / -term and ( ), parsed by MemoryQuery.ts. Terms match anywhere in a
+ * word (--word: whole words only) and anywhere in the document, so
+ * "auth AND rate limit" finds a file with the terms on different lines.
+ * --regex treats the query as one regular expression instead; --fuzzy also
+ * matches stems, typos and synonyms (see MemoryFuzzy.ts).
+ *
+ * Results are ranked by BM25 over the searched documents, with boosts for
+ * title and heading matches, recency, rating and source type (see
+ * MemoryRanking.ts); --explain shows how each score is made up.
+ *
  * Usage:
- *   bun MemorySearch.ts <query> [--type ALGORITHM|SYSTEM|WORK] [--since YYYY-MM-DD]
+ *   bun MemorySearch.ts <query> [--type ALGORITHM|SYSTEM|WORK|...] [--since YYYY-MM-DD] [--include-archived]
+ *                       [--word|--regex|--fuzzy] [--no-index] [--explain] [--json|--ndjson]
  *
  * Examples:
  *   bun MemorySearch.ts "project-a"                    # Search all memory
+ *   bun MemorySearch.ts 'auth "rate limit" -draft'      # Phrase, exclusion
+ *   bun MemorySearch.ts "c++" --word                    # Whole words only
+ *   bun MemorySearch.ts "retr(y|ies)" --regex           # Regular expression
+ *   bun MemorySearch.ts "deploying k8s" --fuzzy         # Also deployment, kubernetes
  *   bun MemorySearch.ts "api" --type WORK             # Search only work summaries
  *   bun MemorySearch.ts "budget" --since 2026-01-20   # Search recent entries
  *   bun MemorySearch.ts "refactor" --type ALGORITHM --since 2026-01-01
+ *   bun MemorySearch.ts "retry" --include-archived      # Also search archive bundles
+ *   bun MemorySearch.ts "api" --ndjson                  # One JSON result per line
+ *   bun MemorySearch.ts "api" --no-index                # Always scan the files
+ *   bun MemorySearch.ts "api" --explain                 # Score breakdown per result
  */
 
-import { Glob } from "bun";
-import * as path from "path";
+import { Database } from "bun:sqlite";
 import * as fs from "fs";
-
-// ANSI color codes
-const colors = {
+import { MEMORY_DIR, DB_PATH, PROFILE, DEFAULT_PROFILE, requireActiveProfile, withoutProfileFlag } from "./MemoryPaths";
+import {
+  loadMemorySources,
+  scanSource,
+  toStoredPath,
+  resolveStoredPath,
+  sourceForId,
+  belongsToSource,
+} from "./MemorySources";
+import { loadArchivedEntries, readBundle } from "./MemoryArchive";
+import type { ArchiveEntry } from "./MemoryArchive";
+import { loadAliasedPaths } from "./MemoryDuplicates";
+import { loadCachedKey, getUnlockedKey, readSecrets } from "./MemoryCrypto";
+import { LATEST_VERSION, getSchemaVersion } from "./MemoryMigrations";
+import { readWatchStatus, isWatchAlive } from "./MemoryWatch";
+import { openReadOnly } from "./MemoryLock";
+import { parseQuery, compileTextMatcher, formatQueryError, QueryParseError, countMatches } from "./MemoryQuery";
+import type { MatchMode, Prefilter, TextMatcher } from "./MemoryQuery";
+import { compileFuzzyMatcher, SYNONYMS_FILE } from "./MemoryFuzzy";
+import {
+  RANKING_FILE,
+  loadRankingConfig,
+  documentFields,
+  createCorpusStats,
+  addToCorpus,
+  scoreDocument,
+} from "./MemoryRanking";
+import type { CorpusStats, DocumentTerms, RankingConfig } from "./MemoryRanking";
+import { parseLearning } from "./LearningParser";
+import { ansi, parseOutputFormat, writeRecords } from "./CliOutput";
+import type { OutputFormat } from "./CliOutput";
+import type { FileSearchRecord, LearningDocument, MemorySource, ScoreExplanation, TermExpansion } from "./types/memory";
+
+// ANSI color codes (empty when not writing to a terminal, see CliOutput.ts)
+const colors = ansi({
   reset: "\x1b[0m",
   bold: "\x1b[1m",
   dim: "\x1b[2m",
@@ -30,20 +87,25 @@ const colors = {
   red: "\x1b[31m",
   bgYellow: "\x1b[43m",
   black: "\x1b[30m",
-};
+});
 
 // Configuration
-const PAI_HOME = process.env.HOME + "/.claude";
-const MEMORY_DIR = path.join(PAI_HOME, "MEMORY");
 const CONTEXT_LINES = 3;
 
 interface SearchResult {
   filePath: string;
   relativePath: string;
-  type: "ALGORITHM" | "SYSTEM" | "WORK";
+  type: string; // Source label, e.g. ALGORITHM
+  archived: boolean;
   timestamp: Date | null;
-  score: number;
+  rating: number | null; // 1-10, from the document
+  score: number; // Relevance, see MemoryRanking.ts
+  explanation: ScoreExplanation | null; // Set when the results are ranked
+  terms: DocumentTerms;
+  matchCount: number;
   matches: MatchContext[];
+  highlight: RegExp | null; // What matched in this document
+  expansions: TermExpansion[]; // Fuzzy matches other than the terms themselves
 }
 
 interface MatchContext {
@@ -53,9 +115,31 @@ interface MatchContext {
   after: string[];
 }
 
+// How query text is matched: literal terms (substring or whole word), a
+// regex, or fuzzy terms
+type QueryMode = MatchMode | "regex" | "fuzzy";
+
+// Where results came from: memory.db, or a scan of every file
+type SearchBackend = "index" | "files";
+
+interface SearchOutcome {
+  backend: SearchBackend;
+  reason: string | null; // Why the index was not used
+  results: SearchResult[];
+}
+
 // Parse command line arguments
-function parseArgs(): { query: string; type?: string; since?: Date } {
-  const args = process.argv.slice(2);
+function parseArgs(): {
+  query: string;
+  type?: string;
+  since?: Date;
+  includeArchived: boolean;
+  useIndex: boolean;
+  mode: QueryMode;
+  explain: boolean;
+  format: OutputFormat;
+} {
+  const args = withoutProfileFlag(process.argv.slice(2));
 
   if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
     printUsage();
@@ -65,12 +149,17 @@ function parseArgs(): { query: string; type?: string; since?: Date } {
   let query = "";
   let type: string | undefined;
   let since: Date | undefined;
+  let includeArchived = false;
+  let useIndex = true;
+  let mode: QueryMode = "substring";
+  let explain = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--type" && args[i + 1]) {
       type = args[i + 1].toUpperCase();
-      if (!["ALGORITHM", "SYSTEM", "WORK"].includes(type)) {
-        console.error(`${colors.red}Error: Invalid type "${type}". Use ALGORITHM, SYSTEM, or WORK.${colors.reset}`);
+      const labels = getSourceLabels();
+      if (!labels.includes(type)) {
+        console.error(`${colors.red}Error: Invalid type "${type}". Use ${labels.join(", ")}.${colors.reset}`);
         process.exit(1);
       }
       i++;
@@ -83,6 +172,18 @@ function parseArgs(): { query: string; type?: string; since?: Date } {
       }
       since = parsed;
       i++;
+    } else if (args[i] === "--include-archived") {
+      includeArchived = true;
+    } else if (args[i] === "--no-index") {
+      useIndex = false;
+    } else if (args[i] === "--explain") {
+      explain = true;
+    } else if (args[i] === "--word" || args[i] === "--regex" || args[i] === "--fuzzy") {
+      if (mode !== "substring") {
+        console.error(`${colors.red}Error: Use only one of --word, --regex and --fuzzy.${colors.reset}`);
+        process.exit(1);
+      }
+      mode = args[i].slice(2) as QueryMode;
     } else if (!args[i].startsWith("--")) {
       query = args[i];
     }
@@ -94,10 +195,19 @@ function parseArgs(): { query: string; type?: string; since?: Date } {
     process.exit(1);
   }
 
-  return { query, type, since };
+  return { query, type, since, includeArchived, useIndex, mode, explain, format: parseOutputFormat(args) };
+}
+
+// Distinct source labels, in registry order
+function getSourceLabels(): string[] {
+  return [...new Set(loadMemorySources().map((s) => s.label))];
 }
 
 function printUsage() {
+  const scope = loadMemorySources()
+    .map((s) => `  - [${s.label}] ${s.root}/${s.glob}${s.recencyDays ? ` (last ${s.recencyDays} days)` : ""}`)
+    .join("\n");
+
   console.log(`
 ${colors.bold}PAI Memory Search${colors.reset}
 
@@ -107,14 +217,46 @@ ${colors.cyan}USAGE:${colors.reset}
   bun MemorySearch.ts <query> [OPTIONS]
 
 ${colors.cyan}OPTIONS:${colors.reset}
-  --type <TYPE>       Filter by type: ALGORITHM, SYSTEM, or WORK
+  --type <TYPE>       Filter by source label: ${getSourceLabels().join(", ")}
   --since <DATE>      Only show results from this date forward (YYYY-MM-DD)
+  --include-archived  Also search memories archived into MEMORY/ARCHIVE bundles
+  --word              Match whole words only (default: anywhere in a word)
+  --regex             Treat the query as a regular expression
+  --fuzzy             Also match other word forms, typos and synonyms
+                      (synonyms: ${SYNONYMS_FILE})
+  --no-index          Scan every file even if memory.db is fresh
+  --explain           Show how each result's score is made up
+                      (weights: ${RANKING_FILE})
+  --profile <NAME>    Search another profile's sources (default: PAI_MEMORY_PROFILE)
+  --json              Print results as one JSON document (see docs/output-schemas.md)
+  --ndjson            Print one JSON result per line
   --help, -h          Show this help message
 
+${colors.cyan}QUERY:${colors.reset}
+  Literal text; special characters need no escaping ("c++", "what?").
+  "quoted phrase"     Words in this order (line breaks allowed)
+  a b, a AND b        Both, anywhere in the document
+  a OR b              Either
+  NOT a, -a           Without a
+  ( )                 Grouping, e.g. (jwt OR oauth) -draft
+  prefix*             With --word, words starting with prefix
+
 ${colors.cyan}EXAMPLES:${colors.reset}
   bun MemorySearch.ts "project-a"
       Search all memory for "project-a"
 
+  bun MemorySearch.ts 'auth AND "rate limit" -draft'
+      Files with both, on any line, that do not mention draft
+
+  bun MemorySearch.ts "api" --word
+      "api" as a word, not inside "rapid"
+
+  bun MemorySearch.ts "retr(y|ies)" --regex
+      Regular expression (case-insensitive)
+
+  bun MemorySearch.ts "deploying postgres" --fuzzy
+      Also finds "deployment", "PostgreSQL" (synonym) and "deplyoing" (typo)
+
   bun MemorySearch.ts "api" --type WORK
       Search only work session summaries for "api"
 
@@ -124,52 +266,65 @@ ${colors.cyan}EXAMPLES:${colors.reset}
   bun MemorySearch.ts "refactor" --type ALGORITHM --since 2026-01-01
       Combine type and date filters
 
-${colors.cyan}SEARCH SCOPE:${colors.reset}
-  - MEMORY/WORK/*/summary.md, IDEAL.md, META.yaml
-  - MEMORY/LEARNING/ALGORITHM/**/*.md
-  - MEMORY/LEARNING/SYSTEM/**/*.md
+  bun MemorySearch.ts "retry" --include-archived
+      Include archived memories (shown as ARCHIVE/<bundle>:<path>)
+
+  bun MemorySearch.ts "api" --ndjson | jq -r .file
+      Machine-readable results, one per line
+
+  bun MemorySearch.ts "rate limit" --explain
+      Show the BM25, recency, rating and type factors of each score
+
+${colors.cyan}SEARCH SCOPE:${colors.reset} (memory-sources.json)
+${scope}
+
+${colors.cyan}INDEX:${colors.reset}
+  Uses memory.db when it is fresh (a watcher is running, or nothing changed
+  since the last sync), else scans the files above.
 
 ${colors.cyan}OUTPUT:${colors.reset}
-  Results are sorted by relevance (match count).
+  Results are sorted by relevance: BM25 (title and heading matches count
+  extra, long documents are normalized) × recency × rating × source type.
   Context (3 lines before/after) is shown for each match.
   Query terms are highlighted in ${colors.bgYellow}${colors.black}yellow${colors.reset}.
 `);
 }
 
-// Get all files to search based on type filter
-async function getFilesToSearch(typeFilter?: string): Promise<{ path: string; type: "ALGORITHM" | "SYSTEM" | "WORK" }[]> {
-  const files: { path: string; type: "ALGORITHM" | "SYSTEM" | "WORK" }[] = [];
-
-  // WORK files (session summaries and ideals)
-  if (!typeFilter || typeFilter === "WORK") {
-    const workDir = path.join(MEMORY_DIR, "WORK");
-    if (fs.existsSync(workDir)) {
-      const workGlob = new Glob("*/{summary.md,IDEAL.md,META.yaml}");
-      for await (const file of workGlob.scan({ cwd: workDir, absolute: false })) {
-        files.push({ path: path.join(workDir, file), type: "WORK" });
-      }
-    }
-  }
+interface FileToSearch {
+  path: string;
+  type: string;
+  content?: string; // Set for archived entries, which have no file on disk
+  bundle?: string;
+}
 
-  // ALGORITHM learnings
-  if (!typeFilter || typeFilter === "ALGORITHM") {
-    const algoDir = path.join(MEMORY_DIR, "LEARNING", "ALGORITHM");
-    if (fs.existsSync(algoDir)) {
-      const algoGlob = new Glob("**/*.md");
-      for await (const file of algoGlob.scan({ cwd: algoDir, absolute: false })) {
-        files.push({ path: path.join(algoDir, file), type: "ALGORITHM" });
-      }
+// Get all files to search from the source registry, filtered by label.
+// Archived memories are only included on request; sensitive sources only
+// while unlocked (see MemoryCrypto.ts). Duplicates merged into another
+// memory (MemoryDatabase.ts merge) are left out.
+async function getFilesToSearch(typeFilter?: string, includeArchived: boolean = false): Promise<FileToSearch[]> {
+  const files: FileToSearch[] = [];
+  const sources = loadMemorySources();
+  const unlocked = loadCachedKey() !== null;
+  const aliased = loadAliasedPaths();
+
+  for (const source of sources) {
+    if (typeFilter && source.label !== typeFilter) continue;
+    if (source.sensitive && !unlocked) {
+      console.error(`${colors.dim}Skipping ${source.name}: sensitive source is locked${colors.reset}`);
+      continue;
+    }
+    for (const { filePath } of await scanSource(source)) {
+      if (!aliased.has(filePath)) files.push({ path: filePath, type: source.label });
     }
   }
 
-  // SYSTEM learnings
-  if (!typeFilter || typeFilter === "SYSTEM") {
-    const sysDir = path.join(MEMORY_DIR, "LEARNING", "SYSTEM");
-    if (fs.existsSync(sysDir)) {
-      const sysGlob = new Glob("**/*.md");
-      for await (const file of sysGlob.scan({ cwd: sysDir, absolute: false })) {
-        files.push({ path: path.join(sysDir, file), type: "SYSTEM" });
-      }
+  if (includeArchived) {
+    for (const entry of loadArchivedEntries()) {
+      const source = sourceForId(sources, entry.id);
+      const label = source?.label || "ARCHIVE";
+      if (typeFilter && label !== typeFilter) continue;
+      if ((source?.sensitive && !unlocked) || aliased.has(resolveStoredPath(entry.file_path))) continue;
+      files.push({ path: resolveStoredPath(entry.file_path), type: label, content: entry.content, bundle: entry.bundle });
     }
   }
 
@@ -203,56 +358,94 @@ function extractDate(filePath: string): Date | null {
   return null;
 }
 
-// Search a single file for matches with context
-function searchFile(filePath: string, query: string, regexPattern: RegExp): MatchContext[] {
+// Document date: front-matter or **Date:** (see LearningParser.ts), else the path
+function documentDate(filePath: string, learning: LearningDocument): Date | null {
+  return learning.date ? new Date(learning.date) : extractDate(filePath);
+}
+
+// Lines where a match starts, with context, and the number of matches.
+// Matches are found in the whole content, so phrases may span lines.
+function searchFile(content: string, pattern: RegExp | null): { matches: MatchContext[]; count: number } {
   const matches: MatchContext[] = [];
+  if (!pattern) return { matches, count: 0 };
+  const lines = content.split("\n");
 
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const lines = content.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      if (regexPattern.test(lines[i])) {
-        const before = lines.slice(Math.max(0, i - CONTEXT_LINES), i);
-        const after = lines.slice(i + 1, Math.min(lines.length, i + 1 + CONTEXT_LINES));
-
-        matches.push({
-          lineNumber: i + 1,
-          before,
-          matchLine: lines[i],
-          after,
-        });
-      }
-    }
-  } catch (error) {
-    // Skip files that can't be read
+  // Offset of the start of each line
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") starts.push(i + 1);
+  }
+
+  let count = 0;
+  let line = 0;
+  let lastLine = -1;
+  for (const match of content.matchAll(pattern)) {
+    if (match[0] === "") continue;
+    count++;
+    while (line + 1 < starts.length && starts[line + 1] <= match.index!) line++;
+    if (line === lastLine) continue;
+    lastLine = line;
+
+    matches.push({
+      lineNumber: line + 1,
+      before: lines.slice(Math.max(0, line - CONTEXT_LINES), line),
+      matchLine: lines[line],
+      after: lines.slice(line + 1, Math.min(lines.length, line + 1 + CONTEXT_LINES)),
+    });
   }
 
-  return matches;
+  return { matches, count };
 }
 
 // Highlight query matches in text
-function highlightMatches(text: string, regexPattern: RegExp): string {
-  return text.replace(regexPattern, (match) =>
+function highlightMatches(text: string, pattern: RegExp | null): string {
+  if (!pattern) return text;
+  return text.replace(pattern, (match) =>
     `${colors.bgYellow}${colors.black}${match}${colors.reset}`
   );
 }
 
+// Score breakdown for --explain
+function formatExplanation(explanation: ScoreExplanation): string[] {
+  const e = explanation;
+  const age = e.ageDays === null ? "undated" : `${e.ageDays} days old`;
+  const lines = [
+    `   ${colors.dim}Score = bm25 ${e.bm25} × recency ${e.recency} (${age}) × rating ${e.rating} × type ${e.type}${colors.reset}`,
+  ];
+  for (const term of e.terms) {
+    lines.push(
+      `   ${colors.dim}  ${term.term}: ${term.frequency} matches (title ${term.title}, headings ${term.headings}), ` +
+        `in ${term.documentFrequency} of ${e.documents} documents, idf ${term.idf} → ${term.score}${colors.reset}`
+    );
+  }
+  lines.push(`   ${colors.dim}  Length: ${e.length} characters (average ${e.averageLength})${colors.reset}`);
+  return lines;
+}
+
 // Format a search result for display
-function formatResult(result: SearchResult, query: string, regexPattern: RegExp): string {
+function formatResult(result: SearchResult, explain: boolean = false): string {
   const lines: string[] = [];
 
   // Header with file path and score
   const typeColor = result.type === "WORK" ? colors.cyan :
                    result.type === "ALGORITHM" ? colors.green : colors.magenta;
 
-  lines.push(`\n${colors.bold}${typeColor}[${result.type}]${colors.reset} ${colors.bold}${result.relativePath}${colors.reset} ${colors.dim}(Score: ${result.score})${colors.reset}`);
+  const archived = result.archived ? ` ${colors.yellow}[archived]${colors.reset}` : "";
+  lines.push(`\n${colors.bold}${typeColor}[${result.type}]${colors.reset} ${colors.bold}${result.relativePath}${colors.reset}${archived} ${colors.dim}(Score: ${result.score.toFixed(2)})${colors.reset}`);
 
   // Timestamp if available
   if (result.timestamp) {
     lines.push(`   ${colors.dim}Timestamp: ${result.timestamp.toISOString().split("T")[0]}${colors.reset}`);
   }
 
+  if (explain && result.explanation) lines.push(...formatExplanation(result.explanation));
+
+  // Fuzzy expansions that matched, e.g. deployment (stem of deploying)
+  if (result.expansions.length > 0) {
+    const matched = result.expansions.map((e) => `${e.match} ${colors.dim}(${e.kind} of ${e.term})${colors.reset}`);
+    lines.push(`   ${colors.dim}Matched:${colors.reset} ${matched.join(", ")}`);
+  }
+
   // Show matches with context
   for (const match of result.matches) {
     lines.push(`   ${colors.dim}Line ${match.lineNumber}:${colors.reset}`);
@@ -263,7 +456,7 @@ function formatResult(result: SearchResult, query: string, regexPattern: RegExp)
     }
 
     // Match line with highlighting
-    lines.push(`   ${colors.yellow}>${colors.reset} ${highlightMatches(match.matchLine, regexPattern)}`);
+    lines.push(`   ${colors.yellow}>${colors.reset} ${highlightMatches(match.matchLine, result.highlight)}`);
 
     // After context
     for (const line of match.after) {
@@ -276,66 +469,452 @@ function formatResult(result: SearchResult, query: string, regexPattern: RegExp)
   return lines.join("\n");
 }
 
-// Main search function
-async function search(query: string, typeFilter?: string, sinceDate?: Date): Promise<SearchResult[]> {
+// A search result as a pai.file-search record (see docs/output-schemas.md)
+function toRecord(result: SearchResult, explain: boolean = false): FileSearchRecord {
+  return {
+    file: result.relativePath,
+    context: result.matches[0]?.matchLine ?? "",
+    relevance: Math.round(result.score * 1000) / 1000,
+    timestamp: result.timestamp ? result.timestamp.toISOString().split("T")[0] : "",
+    type: result.type,
+    archived: result.archived,
+    matchCount: result.matchCount,
+    expansions: result.expansions,
+    matches: result.matches.map((match) => ({
+      line: match.lineNumber,
+      text: match.matchLine,
+      before: match.before,
+      after: match.after,
+    })),
+    ...(explain && result.explanation ? { explain: result.explanation } : {}),
+  };
+}
+
+// Path shown for a result: relative to MEMORY, ~/... for other sources,
+// ARCHIVE/<bundle>:<path> for archived memories
+function displayPath(filePath: string, bundle?: string | null): string {
+  const relativePath = filePath.startsWith(MEMORY_DIR + "/")
+    ? filePath.replace(MEMORY_DIR + "/", "")
+    : toStoredPath(filePath);
+  return bundle ? `ARCHIVE/${bundle}:${relativePath}` : relativePath;
+}
+
+// A document as a result, or null if it does not match or is too old.
+// The score is set once every document is counted (see rankResults).
+function matchDocument(
+  filePath: string,
+  type: string,
+  content: string,
+  bundle: string | null | undefined,
+  matcher: TextMatcher,
+  sinceDate?: Date
+): SearchResult | null {
+  if (!matcher.matches(content)) return null;
+  const learning = parseLearning(content, filePath);
+  const fileDate = documentDate(filePath, learning);
+
+  // Check date filter
+  if (sinceDate && fileDate && fileDate < sinceDate) {
+    return null;
+  }
+
+  const { pattern, expansions } = matcher.expand?.(content) ?? { pattern: matcher.pattern, expansions: [] };
+  const { matches, count } = searchFile(content, pattern);
+  const counts = matcher.count(content);
+  const { title, headings } = documentFields(content, learning);
+
+  return {
+    filePath,
+    relativePath: displayPath(filePath, bundle),
+    type,
+    archived: Boolean(bundle),
+    timestamp: fileDate,
+    rating: learning.rating,
+    score: 0,
+    explanation: null,
+    terms: { counts, title: matcher.count(title), headings: matcher.count(headings), length: content.length },
+    matchCount: count,
+    matches,
+    highlight: pattern,
+    expansions,
+  };
+}
+
+// Scan every source file (and archive bundle) for the query. Every file
+// read is counted in stats.
+async function scanFiles(
+  matcher: TextMatcher,
+  stats: CorpusStats,
+  typeFilter?: string,
+  sinceDate?: Date,
+  includeArchived: boolean = false
+): Promise<SearchResult[]> {
   const results: SearchResult[] = [];
-  const regexPattern = new RegExp(query, "gi");
+  const files = await getFilesToSearch(typeFilter, includeArchived);
+
+  for (const { path: filePath, type, content: archivedContent, bundle } of files) {
+    let content: string;
+    try {
+      content = archivedContent ?? fs.readFileSync(filePath, "utf-8");
+    } catch {
+      continue; // Skip files that can't be read
+    }
+    addToCorpus(stats, matcher.count(content), content.length);
+    const result = matchDocument(filePath, type, content, bundle, matcher, sinceDate);
+    if (result) results.push(result);
+  }
+
+  return results;
+}
+
+// memory.db opened read-only if it is fresh, else null and the reason.
+// Fresh means a live watcher keeps it in sync, or every file of the
+// searchable sources is indexed at its current mtime and nothing indexed is
+// gone. Only file metadata is read for this check.
+async function openFreshIndex(sources: MemorySource[], unlocked: boolean): Promise<{ db: Database | null; reason: string }> {
+  if (!fs.existsSync(DB_PATH)) return { db: null, reason: "no memory.db yet" };
+
+  const db = openReadOnly(DB_PATH);
+  if (getSchemaVersion(db) !== LATEST_VERSION) {
+    db.close();
+    return { db: null, reason: "memory.db needs migrating" };
+  }
+
+  const watch = readWatchStatus();
+  if (watch && isWatchAlive(watch)) return { db, reason: "a watcher keeps it in sync" };
 
-  const files = await getFilesToSearch(typeFilter);
+  const indexed = new Map(
+    (db.prepare("SELECT id, file_path, mtime FROM memories WHERE archived = 0").all() as {
+      id: string;
+      file_path: string;
+      mtime: number | null;
+    }[]).map((row) => [row.id, row])
+  );
+  const deleted = new Set(
+    (db.prepare("SELECT id FROM memory_tombstones").all() as { id: string }[]).map((row) => row.id)
+  );
 
-  for (const { path: filePath, type } of files) {
-    // Check date filter
-    if (sinceDate) {
-      const fileDate = extractDate(filePath);
-      if (fileDate && fileDate < sinceDate) {
-        continue;
+  let changed = 0;
+  const seen = new Set<string>();
+  for (const source of sources) {
+    if (source.sensitive && !unlocked) continue;
+    for (const { filePath, id } of await scanSource(source)) {
+      if (deleted.has(id) || seen.has(id)) continue;
+      seen.add(id);
+      const row = indexed.get(id);
+      let mtime: number;
+      try {
+        mtime = Math.floor(fs.statSync(filePath).mtimeMs);
+      } catch {
+        continue; // Removed while scanning
       }
+      if (!row || row.mtime !== mtime || row.file_path !== toStoredPath(filePath)) changed++;
     }
+  }
+  // A row not seen in the scan is stale only if sync would remove it: its
+  // file is gone or no source claims it any more. Files past a source's
+  // recencyDays are not scanned, but sync keeps their rows.
+  for (const [id, row] of indexed) {
+    if (seen.has(id)) continue;
+    const source = sourceForId(sources, id);
+    if (source?.sensitive && !unlocked) continue;
+    const filePath = resolveStoredPath(row.file_path);
+    if (!fs.existsSync(filePath) || !belongsToSource(sources, filePath)) changed++;
+  }
+
+  if (changed > 0) {
+    db.close();
+    return { db: null, reason: `${changed} files changed since the last sync` };
+  }
+  return { db, reason: "up to date" };
+}
 
-    const matches = searchFile(filePath, query, regexPattern);
-
-    if (matches.length > 0) {
-      const relativePath = filePath.replace(MEMORY_DIR + "/", "");
-      results.push({
-        filePath,
-        relativePath,
-        type,
-        timestamp: extractDate(filePath),
-        score: matches.reduce((sum, m) => sum + (m.matchLine.match(regexPattern) || []).length, 0),
-        matches,
-      });
+// A searched memory; content is the original for redacted ones (redacted = 1)
+interface IndexRow {
+  id: string;
+  file_path: string;
+  content: string;
+  archive_bundle: string | null;
+  type: string;
+  redacted: number;
+}
+
+// Label of the source a memory belongs to, in SQL (see sourceForId: the
+// longest matching idPrefix wins); archived memories without a source are
+// ARCHIVE, the rest NULL
+function labelSql(sources: MemorySource[]): { sql: string; params: (string | number)[] } {
+  const ordered = [...sources].sort((a, b) => b.idPrefix.length - a.idPrefix.length);
+  return {
+    sql: `CASE ${ordered.map(() => "WHEN substr(m.id, 1, ?) = ? THEN ?").join(" ")}
+      WHEN m.archive_bundle IS NOT NULL THEN 'ARCHIVE' END`,
+    params: ordered.flatMap((source) => [source.idPrefix.length, source.idPrefix, source.label]),
+  };
+}
+
+// Matching documents from the index. SQL narrows the rows with the
+// matcher's prefilter (memories_fts for whole words) and counts the
+// searched documents, their length and each term's document frequency for
+// ranking; only the remaining candidates are tested in code. A matcher without
+// prefilters (--regex, --fuzzy, or terms SQL cannot look up) tests every row.
+// Only matching files are read from disk, to map the match to lines of the
+// current file; archived memories use their indexed content. Indexed content
+// is redacted (see MemoryRedaction.ts), so memories with rows in
+// redactions skip the prefilter and are counted and matched on their file
+// (or archived entry) instead, as the file scan does.
+function searchIndex(
+  db: Database,
+  matcher: TextMatcher,
+  stats: CorpusStats,
+  sources: MemorySource[],
+  typeFilter?: string,
+  sinceDate?: Date,
+  includeArchived: boolean = false
+): SearchResult[] {
+  const results: SearchResult[] = [];
+  const label = labelSql(sources);
+
+  // Searchable rows: not encrypted, archived only on request, and not merged
+  // into another memory (merged duplicates are found through their canonical one)
+  const searched = `
+    WITH searched AS (
+      SELECT m.rowid AS rowid, m.id, m.file_path, m.content, m.archive_bundle, ${label.sql} AS type,
+        m.id IN (SELECT memory_id FROM redactions) AS redacted
+      FROM memories m
+      WHERE m.encrypted = 0 ${includeArchived ? "" : "AND m.archived = 0"}
+        AND m.id NOT IN (SELECT alias_id FROM memory_aliases)
+    )`;
+  const scope = "m.type IS NOT NULL AND (? IS NULL OR m.type = ?)";
+  const scopeParams = [...label.params, typeFilter ?? null, typeFilter ?? null];
+  const query = (select: string, filter: Prefilter | null) =>
+    db.prepare(`${searched} SELECT ${select} FROM searched m WHERE ${scope}${filter ? ` AND (${filter.sql})` : ""}`);
+
+  // Redacted memories are counted below, on their original content
+  const counted = matcher.termFilters.every((filter) => filter !== null);
+  const filter = counted && matcher.prefilter
+    ? { sql: `m.redacted = 1 OR (${matcher.prefilter.sql})`, params: matcher.prefilter.params }
+    : null;
+  if (counted) {
+    const corpus = query("COUNT(*) AS documents, COALESCE(SUM(length(m.content)), 0) AS length", {
+      sql: "m.redacted = 0",
+      params: [],
+    }).get(...scopeParams) as { documents: number; length: number };
+    stats.documents += corpus.documents;
+    stats.totalLength += corpus.length;
+    matcher.termFilters.forEach((termFilter, i) => {
+      const unredacted = { sql: `m.redacted = 0 AND (${termFilter!.sql})`, params: termFilter!.params };
+      const row = query("COUNT(*) AS count", unredacted).get(...scopeParams, ...unredacted.params) as { count: number };
+      stats.documentFrequency[i] += row.count;
+    });
+  }
+
+  const bundles = new Map<string, ArchiveEntry[]>();
+  const original = (row: { id: string; file_path: string; archive_bundle: string | null }): string | null => {
+    if (!row.archive_bundle) {
+      try {
+        return fs.readFileSync(resolveStoredPath(row.file_path), "utf-8");
+      } catch {
+        return null; // Removed since the last sync
+      }
+    }
+    if (!bundles.has(row.archive_bundle)) bundles.set(row.archive_bundle, readBundle(row.archive_bundle));
+    return bundles.get(row.archive_bundle)!.find((entry) => entry.id === row.id)?.content ?? null;
+  };
+
+  const rows: IndexRow[] = [];
+  for (const row of query("m.id, m.file_path, m.content, m.archive_bundle, m.type, m.redacted", filter).all(
+    ...scopeParams,
+    ...(filter?.params ?? [])
+  ) as IndexRow[]) {
+    if (row.redacted) {
+      const content = original(row);
+      if (content === null) continue;
+      row.content = content;
+    }
+    if (!counted || row.redacted) addToCorpus(stats, matcher.count(row.content), row.content.length);
+    rows.push(row);
+  }
+
+  // Encrypted memories are only searched while unlocked, after decrypting
+  const key = getUnlockedKey(db);
+  if (key) {
+    const aliases = new Set(
+      (db.prepare("SELECT alias_id FROM memory_aliases").all() as { alias_id: string }[]).map((row) => row.alias_id)
+    );
+    const redacted = new Set(
+      (db.prepare("SELECT DISTINCT memory_id FROM redactions").all() as { memory_id: string }[]).map((row) => row.memory_id)
+    );
+    for (const row of readSecrets(db, key)) {
+      if ((!includeArchived && row.archived) || aliases.has(row.id)) continue;
+      const source = sourceForId(sources, row.id);
+      const type = row.archive_bundle ? source?.label || "ARCHIVE" : source?.label;
+      if (!type || (typeFilter && type !== typeFilter)) continue;
+      const content = redacted.has(row.id) ? original(row) : row.content;
+      if (content === null) continue;
+      addToCorpus(stats, matcher.count(content), content.length);
+      rows.push({ id: row.id, file_path: row.file_path, content, archive_bundle: row.archive_bundle, type, redacted: Number(redacted.has(row.id)) });
+    }
+  } else {
+    const locked = sources.filter((source) => source.sensitive && (!typeFilter || source.label === typeFilter));
+    for (const source of locked) {
+      console.error(`${colors.dim}Skipping ${source.name}: sensitive source is locked${colors.reset}`);
     }
   }
 
-  // Sort by score descending
-  results.sort((a, b) => b.score - a.score);
+  for (const row of rows) {
+    if (!matcher.matches(row.content)) continue;
+
+    const filePath = resolveStoredPath(row.file_path);
+    let content: string;
+    try {
+      content = row.archive_bundle || row.redacted ? row.content : fs.readFileSync(filePath, "utf-8");
+    } catch {
+      continue; // Removed since the last sync
+    }
+    const result = matchDocument(filePath, row.type, content, row.archive_bundle, matcher, sinceDate);
+    if (result) results.push(result);
+  }
 
   return results;
 }
 
+// Matcher for the query: parsed by MemoryQuery.ts (fuzzy terms: MemoryFuzzy.ts),
+// or one regex with --regex (^ and $ match at line breaks, as when lines were
+// searched one by one)
+function buildMatcher(query: string, mode: QueryMode): TextMatcher {
+  if (mode === "regex") {
+    const probe = new RegExp(query, "im");
+    const pattern = new RegExp(query, "gim");
+    return {
+      matches: (content) => probe.test(content),
+      pattern,
+      terms: [query],
+      count: (text) => [countMatches(text, pattern)],
+      prefilter: null,
+      termFilters: [null],
+    };
+  }
+
+  const { text } = parseQuery(query, { fields: false });
+  return mode === "fuzzy" ? compileFuzzyMatcher(text!) : compileTextMatcher(text!, mode);
+}
+
+// Score every result against the statistics of all searched documents
+function rankResults(results: SearchResult[], matcher: TextMatcher, stats: CorpusStats, ranking: RankingConfig): void {
+  const now = new Date();
+  for (const result of results) {
+    const { score, explanation } = scoreDocument(
+      matcher.terms,
+      result.terms,
+      stats,
+      result.type,
+      result.rating,
+      result.timestamp,
+      ranking,
+      now
+    );
+    result.score = score;
+    result.explanation = explanation;
+  }
+}
+
+// Main search function: the index when it is fresh, else a file scan
+async function search(
+  matcher: TextMatcher,
+  ranking: RankingConfig,
+  typeFilter?: string,
+  sinceDate?: Date,
+  includeArchived: boolean = false,
+  useIndex: boolean = true
+): Promise<SearchOutcome> {
+  const sources = loadMemorySources();
+  const stats = createCorpusStats(matcher.terms.length);
+
+  let outcome: SearchOutcome;
+  const { db, reason } = useIndex
+    ? await openFreshIndex(sources, loadCachedKey() !== null)
+    : { db: null, reason: "--no-index" };
+  if (db) {
+    try {
+      outcome = {
+        backend: "index",
+        reason: null,
+        results: searchIndex(db, matcher, stats, sources, typeFilter, sinceDate, includeArchived),
+      };
+    } finally {
+      db.close();
+    }
+  } else {
+    outcome = {
+      backend: "files",
+      reason,
+      results: await scanFiles(matcher, stats, typeFilter, sinceDate, includeArchived),
+    };
+  }
+  rankResults(outcome.results, matcher, stats, ranking);
+
+  // Sort by score descending (ties by path, so both backends agree)
+  outcome.results.sort((a, b) => b.score - a.score || a.relativePath.localeCompare(b.relativePath));
+
+  return outcome;
+}
+
 // Main entry point
 async function main() {
-  const { query, type, since } = parseArgs();
+  const { query, type, since, includeArchived, useIndex, mode, explain, format } = parseArgs();
+  requireActiveProfile();
+  const ranking = loadRankingConfig();
 
-  console.log(`\n${colors.bold}Searching PAI Memory for "${query}"${colors.reset}`);
+  let matcher: TextMatcher;
+  try {
+    matcher = buildMatcher(query, mode);
+  } catch (error) {
+    if (!(error instanceof QueryParseError)) throw error;
+    console.error(`${colors.red}Error: ${formatQueryError(query, error)}${colors.reset}`);
+    console.error(`${colors.dim}Quote text to search for it as is, e.g. '"(draft"'${colors.reset}`);
+    process.exit(1);
+  }
+
+  if (format !== "text") {
+    const { backend, results } = await search(matcher, ranking, type, since, includeArchived, useIndex);
+    const meta = {
+      query,
+      mode,
+      type: type ?? null,
+      since: since ? since.toISOString().split("T")[0] : null,
+      includeArchived,
+      backend,
+    };
+    writeRecords(format, "pai.file-search", meta, results.map((result) => toRecord(result, explain)));
+    return;
+  }
+
+  const profile = PROFILE === DEFAULT_PROFILE ? "" : ` (profile ${PROFILE})`;
+  console.log(`\n${colors.bold}Searching PAI Memory${profile} for "${query}"${colors.reset}`);
   if (type) console.log(`${colors.dim}Type filter: ${type}${colors.reset}`);
   if (since) console.log(`${colors.dim}Since: ${since.toISOString().split("T")[0]}${colors.reset}`);
+  if (includeArchived) console.log(`${colors.dim}Including archived memories${colors.reset}`);
+  const modes = { word: "whole words", regex: "regular expression", fuzzy: "fuzzy (stems, typos, synonyms)" };
+  if (mode !== "substring") console.log(`${colors.dim}Matching: ${modes[mode]}${colors.reset}`);
+
+  const { backend, reason, results } = await search(matcher, ranking, type, since, includeArchived, useIndex);
+  console.log(
+    backend === "index"
+      ? `${colors.dim}Using memory.db index${colors.reset}`
+      : `${colors.dim}Scanning files (${reason})${colors.reset}`
+  );
   console.log("");
 
-  const results = await search(query, type, since);
-  const regexPattern = new RegExp(query, "gi");
-
   if (results.length === 0) {
     console.log(`${colors.yellow}No results found for "${query}"${colors.reset}`);
     process.exit(0);
   }
 
-  const totalMatches = results.reduce((sum, r) => sum + r.score, 0);
+  const totalMatches = results.reduce((sum, r) => sum + r.matchCount, 0);
   console.log(`${colors.green}Found ${results.length} files with ${totalMatches} matches${colors.reset}`);
   console.log(`${"=".repeat(60)}`);
 
   for (const result of results) {
-    console.log(formatResult(result, query, regexPattern));
+    console.log(formatResult(result, explain));
   }
 }
 
@@ -0,0 +1,176 @@
+/**
+ * PAI Memory Sources
+ *
+ * Loads the memory source registry (memory-sources.json) shared by
+ * MemoryDatabase.ts and MemorySearch.ts, so both tools index and search
+ * exactly the same files.
+ *
+ * The registry is the active profile's memory-sources.json (see
+ * MemoryPaths.ts): PAI_MEMORY_SOURCES if set, otherwise the file next to
+ * this one for the default profile.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { Glob } from "bun";
+import { PAI_HOME, MEMORY_DIR, SOURCES_FILE } from "./MemoryPaths";
+import type { MemorySource } from "./types/memory";
+
+const MEMORY_TYPES = ["learning", "session", "synthesis", "work"];
+
+// A file found in a source, with the memory id it is indexed under
+export interface SourceFile {
+  source: MemorySource;
+  filePath: string; // Absolute path
+  relPath: string; // Relative to the source root
+  id: string;
+}
+
+// Expand ~/, $PAI_MEMORY (the profile's MEMORY directory) and $PAI_HOME;
+// relative roots resolve against the registry file
+export function expandRoot(root: string): string {
+  if (root.startsWith("~/")) return path.join(process.env.HOME!, root.slice(2));
+  if (root.startsWith("$PAI_MEMORY")) return path.join(MEMORY_DIR, root.slice("$PAI_MEMORY".length));
+  if (root.startsWith("$PAI_HOME")) return path.join(PAI_HOME, root.slice("$PAI_HOME".length));
+  if (path.isAbsolute(root)) return root;
+  return path.resolve(path.dirname(SOURCES_FILE), root);
+}
+
+// Path stored in file_path: relative to PAI_HOME, or ~/ for other home files
+export function toStoredPath(filePath: string): string {
+  if (filePath.startsWith(PAI_HOME + "/")) return filePath.replace(PAI_HOME + "/", "");
+  if (filePath.startsWith(process.env.HOME + "/")) return filePath.replace(process.env.HOME + "/", "~/");
+  return filePath;
+}
+
+// Inverse of toStoredPath
+export function resolveStoredPath(storedPath: string): string {
+  if (storedPath.startsWith("~/")) return path.join(process.env.HOME!, storedPath.slice(2));
+  if (path.isAbsolute(storedPath)) return storedPath;
+  return path.join(PAI_HOME, storedPath);
+}
+
+// Validate one registry entry, naming the offending field on error
+function validateSource(entry: any, index: number): MemorySource {
+  const where = `${SOURCES_FILE}: sources[${index}]`;
+  for (const field of ["name", "label", "root", "glob", "idPrefix", "type", "topic"]) {
+    if (typeof entry[field] !== "string" || !entry[field]) {
+      throw new Error(`${where}: "${field}" must be a non-empty string`);
+    }
+  }
+  if (!MEMORY_TYPES.includes(entry.type)) {
+    throw new Error(`${where}: "type" must be one of ${MEMORY_TYPES.join(", ")}`);
+  }
+  for (const field of ["importance", "stability"]) {
+    if (!Number.isInteger(entry[field]) || entry[field] < 1 || entry[field] > 5) {
+      throw new Error(`${where}: "${field}" must be an integer from 1 to 5`);
+    }
+  }
+  if (entry.recencyDays !== undefined && (!Number.isInteger(entry.recencyDays) || entry.recencyDays <= 0)) {
+    throw new Error(`${where}: "recencyDays" must be a positive integer`);
+  }
+  if (entry.idFromDirectory !== undefined && (typeof entry.idFromDirectory !== "string" || !entry.idFromDirectory)) {
+    throw new Error(`${where}: "idFromDirectory" must be a non-empty file name`);
+  }
+  if (entry.sensitive !== undefined && typeof entry.sensitive !== "boolean") {
+    throw new Error(`${where}: "sensitive" must be true or false`);
+  }
+  return entry as MemorySource;
+}
+
+// Load and validate the source registry
+export function loadMemorySources(): MemorySource[] {
+  if (!fs.existsSync(SOURCES_FILE)) {
+    throw new Error(`Memory source registry not found: ${SOURCES_FILE}`);
+  }
+
+  const config = JSON.parse(fs.readFileSync(SOURCES_FILE, "utf-8"));
+  if (!Array.isArray(config.sources)) {
+    throw new Error(`${SOURCES_FILE}: expected a "sources" array`);
+  }
+
+  const sources = config.sources.map(validateSource);
+  const names = new Set<string>();
+  for (const source of sources) {
+    if (names.has(source.name)) {
+      throw new Error(`${SOURCES_FILE}: duplicate source name "${source.name}"`);
+    }
+    names.add(source.name);
+  }
+
+  return sources;
+}
+
+// Build the memory id for a file: prefix + relative path without extension.
+// A source's idFromDirectory file takes its directory's id instead, so
+// WORK/<session>/summary.md stays work_<session>.
+export function memoryId(source: MemorySource, relPath: string): string {
+  const dir = path.dirname(relPath);
+  if (source.idFromDirectory && dir !== "." && path.basename(relPath) === source.idFromDirectory) {
+    return source.idPrefix + dir.replace(/\//g, "_");
+  }
+  return source.idPrefix + relPath.replace(/\.\w+$/, "").replace(/\//g, "_");
+}
+
+// Source a memory id belongs to (longest matching idPrefix)
+export function sourceForId(sources: MemorySource[], id: string): MemorySource | undefined {
+  return sources
+    .filter((s) => id.startsWith(s.idPrefix))
+    .sort((a, b) => b.idPrefix.length - a.idPrefix.length)[0];
+}
+
+// Fallback topic for a file without a heading
+export function fallbackTopic(source: MemorySource, filePath: string): string {
+  return source.topic.replace("{name}", path.basename(filePath, path.extname(filePath)));
+}
+
+// Files modified on or before this date are outside the source's window
+function recencyCutoff(source: MemorySource): Date | null {
+  if (!source.recencyDays) return null;
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - source.recencyDays);
+  return cutoff;
+}
+
+// List the files of a source, honouring its recency window
+export async function scanSource(source: MemorySource): Promise<SourceFile[]> {
+  const root = expandRoot(source.root);
+  if (!fs.existsSync(root)) return [];
+
+  const cutoff = recencyCutoff(source);
+
+  const files: SourceFile[] = [];
+  const glob = new Glob(source.glob);
+  for await (const relPath of glob.scan({ cwd: root, absolute: false })) {
+    const filePath = path.join(root, relPath);
+    if (cutoff && fs.statSync(filePath).mtime <= cutoff) continue;
+    files.push({ source, filePath, relPath, id: memoryId(source, relPath) });
+  }
+
+  return files;
+}
+
+// Whether a file is matched by some source's root and glob, inside its
+// recency window or not
+export function belongsToSource(sources: MemorySource[], filePath: string): boolean {
+  return sources.some((source) => {
+    const root = expandRoot(source.root);
+    return filePath.startsWith(root + "/") && new Glob(source.glob).match(path.relative(root, filePath));
+  });
+}
+
+// Sources an existing file belongs to, with the id it is indexed under in
+// each. Used to sync single files without scanning whole sources.
+export function matchSourceFile(sources: MemorySource[], filePath: string): SourceFile[] {
+  const matches: SourceFile[] = [];
+  for (const source of sources) {
+    const root = expandRoot(source.root);
+    if (!filePath.startsWith(root + "/")) continue;
+    const relPath = path.relative(root, filePath);
+    if (!new Glob(source.glob).match(relPath)) continue;
+    const cutoff = recencyCutoff(source);
+    if (cutoff && fs.statSync(filePath).mtime <= cutoff) continue;
+    matches.push({ source, filePath, relPath, id: memoryId(source, relPath) });
+  }
+  return matches;
+}
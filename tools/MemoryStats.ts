@@ -0,0 +1,518 @@
+/**
+ * PAI Memory Statistics
+ *
+ * Reports behind `MemoryDatabase.ts stats`: capture growth per source, tag
+ * leaderboard, rating distribution and trend, importance/stability
+ * breakdowns, largest documents, stale sources and database size.
+ *
+ * Each report is a plain object (also the --json output, see
+ * docs/output-schemas.md); formatStatsReport renders them as terminal tables
+ * with sparklines. Merged duplicates are left out of every count.
+ */
+
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import { DB_PATH } from "./MemoryPaths";
+import { sourceForId } from "./MemorySources";
+import { ansi } from "./CliOutput";
+import type { MemorySource } from "./types/memory";
+
+export type StatsPeriod = "week" | "month";
+
+export const STATS_REPORTS = ["summary", "growth", "tags", "ratings", "scores", "largest", "stale", "storage"] as const;
+export type StatsReportName = (typeof STATS_REPORTS)[number];
+
+export interface StatsOptions {
+  period: StatsPeriod; // Bucket size for growth and rating trend
+  periods: number; // Number of buckets, ending with the current one
+  staleDays: number; // A source is stale after this many days without changes
+  top: number; // Rows in the tag leaderboard and largest documents
+}
+
+export const DEFAULT_STATS_OPTIONS: StatsOptions = { period: "week", periods: 12, staleDays: 30, top: 10 };
+
+export interface StatsSummary {
+  total: number;
+  archived: number;
+  byType: Record<string, number>;
+  ratings: { average: number; min: number; max: number; count: number } | null;
+}
+
+export interface GrowthReport {
+  period: StatsPeriod;
+  buckets: string[]; // Week start (YYYY-MM-DD, Monday) or month (YYYY-MM), oldest first
+  sources: { source: string; label: string; counts: number[]; total: number }[];
+  totals: number[]; // All sources, per bucket
+}
+
+export interface TagCount {
+  tag: string; // Without the leading #
+  count: number;
+  lastUsed: string; // YYYY-MM-DD
+}
+
+export interface RatingReport {
+  histogram: number[]; // histogram[0] is the number of 1/10 ratings
+  count: number;
+  average: number | null;
+  trend: { buckets: string[]; averages: (number | null)[]; counts: number[] };
+}
+
+export interface ScoreBreakdown {
+  importance: number[]; // importance[0] is the number of memories with importance 1
+  stability: number[];
+}
+
+export interface LargestDocument {
+  id: string;
+  topic: string;
+  file_path: string;
+  bytes: number;
+  lines: number;
+}
+
+export interface StaleSource {
+  source: string;
+  label: string;
+  memories: number;
+  lastChanged: string | null; // Newest source file mtime (YYYY-MM-DD), null if never indexed
+  daysSince: number | null;
+}
+
+export interface StorageReport {
+  fileBytes: number; // memory.db plus its WAL file
+  tables: { name: string; bytes: number }[] | null; // null if SQLite lacks dbstat
+}
+
+export interface StatsReport {
+  summary?: StatsSummary;
+  growth?: GrowthReport;
+  tags?: TagCount[];
+  ratingDistribution?: RatingReport; // "ratings" report; summary.ratings is the overview
+  scores?: ScoreBreakdown;
+  largest?: LargestDocument[];
+  stale?: StaleSource[];
+  storage?: StorageReport;
+}
+
+const colors = ansi({
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  cyan: "\x1b[36m",
+  yellow: "\x1b[33m",
+  green: "\x1b[32m",
+  red: "\x1b[31m",
+});
+
+const SPARK = "▁▂▃▄▅▆▇█";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LIVE = "id NOT IN (SELECT alias_id FROM memory_aliases)";
+
+// One character per value, scaled from 0 to the largest value; null is blank
+export function sparkline(values: (number | null)[]): string {
+  const max = Math.max(0, ...values.map((v) => v ?? 0));
+  return values
+    .map((v) => {
+      if (v === null) return " ";
+      if (max === 0) return SPARK[0];
+      return SPARK[Math.min(SPARK.length - 1, Math.floor((v / max) * (SPARK.length - 1)))];
+    })
+    .join("");
+}
+
+function localDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+// Bucket key of a YYYY-MM-DD date
+function bucketOf(day: string, period: StatsPeriod): string {
+  if (period === "month") return day.slice(0, 7);
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+// The last `count` bucket keys, oldest first, ending with the current one
+function recentBuckets(period: StatsPeriod, count: number, now: Date = new Date()): string[] {
+  const buckets: string[] = [];
+  const current = bucketOf(localDate(now), period);
+  for (let i = count - 1; i >= 0; i--) {
+    if (period === "month") {
+      const date = new Date(Date.UTC(Number(current.slice(0, 4)), Number(current.slice(5, 7)) - 1 - i, 1));
+      buckets.push(date.toISOString().slice(0, 7));
+    } else {
+      const date = new Date(`${current}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() - 7 * i);
+      buckets.push(date.toISOString().slice(0, 10));
+    }
+  }
+  return buckets;
+}
+
+export function getSummary(db: Database): StatsSummary {
+  const total = db.prepare("SELECT COUNT(*) AS total, SUM(archived) AS archived FROM memories").get() as any;
+  const byType = db.prepare("SELECT type, COUNT(*) AS count FROM memories GROUP BY type").all() as any[];
+  const ratings = db.prepare(`
+    SELECT AVG(rating) AS average, MIN(rating) AS min, MAX(rating) AS max, COUNT(*) AS count
+    FROM memories WHERE rating IS NOT NULL
+  `).get() as any;
+
+  return {
+    total: total.total,
+    archived: total.archived || 0,
+    byType: Object.fromEntries(byType.map((row) => [row.type, row.count])),
+    ratings: ratings.count > 0 ? ratings : null,
+  };
+}
+
+// Memories captured per bucket, per source (by id prefix)
+export function getGrowth(db: Database, sources: MemorySource[], options: StatsOptions): GrowthReport {
+  const buckets = recentBuckets(options.period, options.periods);
+  const index = new Map(buckets.map((b, i) => [b, i]));
+  const series = new Map<string, GrowthReport["sources"][number]>();
+  for (const source of sources) {
+    series.set(source.name, { source: source.name, label: source.label, counts: buckets.map(() => 0), total: 0 });
+  }
+
+  const rows = db.prepare(`SELECT id, date(timestamp) AS day FROM memories WHERE ${LIVE}`).all() as any[];
+  for (const row of rows) {
+    if (!row.day) continue;
+    const i = index.get(bucketOf(row.day, options.period));
+    if (i === undefined) continue;
+    const source = sourceForId(sources, row.id);
+    const key = source?.name ?? "(unknown)";
+    if (!series.has(key)) {
+      series.set(key, { source: key, label: key.toUpperCase(), counts: buckets.map(() => 0), total: 0 });
+    }
+    const entry = series.get(key)!;
+    entry.counts[i]++;
+    entry.total++;
+  }
+
+  const list = [...series.values()];
+  return {
+    period: options.period,
+    buckets,
+    sources: list,
+    totals: buckets.map((_, i) => list.reduce((sum, s) => sum + s.counts[i], 0)),
+  };
+}
+
+export function getTagLeaderboard(db: Database, top: number): TagCount[] {
+  const rows = db.prepare(`SELECT tags, date(timestamp) AS day FROM memories WHERE tags != '' AND ${LIVE}`).all() as any[];
+  const counts = new Map<string, TagCount>();
+  for (const row of rows) {
+    for (const raw of String(row.tags).split(/\s+/)) {
+      const tag = raw.replace(/^#/, "").toLowerCase();
+      if (!tag) continue;
+      const entry = counts.get(tag) ?? { tag, count: 0, lastUsed: "" };
+      entry.count++;
+      if (row.day && row.day > entry.lastUsed) entry.lastUsed = row.day;
+      counts.set(tag, entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)).slice(0, top);
+}
+
+export function getRatingReport(db: Database, options: StatsOptions): RatingReport {
+  const rows = db.prepare(`
+    SELECT rating, date(timestamp) AS day FROM memories WHERE rating IS NOT NULL AND ${LIVE}
+  `).all() as any[];
+
+  const histogram = Array(10).fill(0);
+  const buckets = recentBuckets(options.period, options.periods);
+  const index = new Map(buckets.map((b, i) => [b, i]));
+  const sums = buckets.map(() => 0);
+  const counts = buckets.map(() => 0);
+
+  for (const row of rows) {
+    if (row.rating >= 1 && row.rating <= 10) histogram[row.rating - 1]++;
+    const i = row.day ? index.get(bucketOf(row.day, options.period)) : undefined;
+    if (i !== undefined) {
+      sums[i] += row.rating;
+      counts[i]++;
+    }
+  }
+
+  return {
+    histogram,
+    count: rows.length,
+    average: rows.length > 0 ? rows.reduce((sum, r) => sum + r.rating, 0) / rows.length : null,
+    trend: {
+      buckets,
+      averages: sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : null)),
+      counts,
+    },
+  };
+}
+
+export function getScoreBreakdown(db: Database): ScoreBreakdown {
+  const breakdown: ScoreBreakdown = { importance: Array(5).fill(0), stability: Array(5).fill(0) };
+  for (const column of ["importance", "stability"] as const) {
+    const rows = db.prepare(`SELECT ${column} AS value, COUNT(*) AS count FROM memories WHERE ${LIVE} GROUP BY ${column}`).all() as any[];
+    for (const row of rows) {
+      if (row.value >= 1 && row.value <= 5) breakdown[column][row.value - 1] = row.count;
+    }
+  }
+  return breakdown;
+}
+
+export function getLargestDocuments(db: Database, top: number): LargestDocument[] {
+  const rows = db.prepare(`
+    SELECT id, topic, file_path, content FROM memories
+    WHERE ${LIVE}
+    ORDER BY length(CAST(content AS BLOB)) DESC
+    LIMIT ?
+  `).all(top) as any[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    topic: row.topic,
+    file_path: row.file_path,
+    bytes: Buffer.byteLength(row.content),
+    lines: row.content.split("\n").length,
+  }));
+}
+
+// Sources whose newest file has not changed within staleDays, including
+// sources with nothing indexed
+export function getStaleSources(db: Database, sources: MemorySource[], staleDays: number): StaleSource[] {
+  const newest = new Map<string, { memories: number; mtime: number | null }>();
+  for (const source of sources) newest.set(source.name, { memories: 0, mtime: null });
+
+  const rows = db.prepare("SELECT id, mtime FROM memories WHERE archived = 0").all() as any[];
+  for (const row of rows) {
+    const source = sourceForId(sources, row.id);
+    if (!source) continue;
+    const entry = newest.get(source.name)!;
+    entry.memories++;
+    if (row.mtime && (entry.mtime === null || row.mtime > entry.mtime)) entry.mtime = row.mtime;
+  }
+
+  const now = Date.now();
+  return sources
+    .map((source) => {
+      const { memories, mtime } = newest.get(source.name)!;
+      return {
+        source: source.name,
+        label: source.label,
+        memories,
+        lastChanged: mtime === null ? null : localDate(new Date(mtime)),
+        daysSince: mtime === null ? null : Math.floor((now - mtime) / DAY_MS),
+      };
+    })
+    .filter((s) => s.daysSince === null || s.daysSince >= staleDays)
+    .sort((a, b) => (b.daysSince ?? Infinity) - (a.daysSince ?? Infinity));
+}
+
+// Group SQLite objects into the tables they belong to: FTS shadow tables
+// with their index, and all indexes together
+function storageGroup(name: string): string {
+  const fts = name.match(/^(\w+_fts)(?:_\w+)?$/);
+  if (fts) return fts[1];
+  if (name.startsWith("idx_") || name.startsWith("sqlite_autoindex_")) return "indexes";
+  return name;
+}
+
+export function getStorage(db: Database): StorageReport {
+  let fileBytes = 0;
+  for (const file of [DB_PATH, `${DB_PATH}-wal`]) {
+    if (fs.existsSync(file)) fileBytes += fs.statSync(file).size;
+  }
+
+  let tables: StorageReport["tables"] = null;
+  try {
+    const rows = db.prepare("SELECT name, SUM(pgsize) AS bytes FROM dbstat GROUP BY name").all() as any[];
+    const groups = new Map<string, number>();
+    for (const row of rows) {
+      const group = storageGroup(row.name);
+      groups.set(group, (groups.get(group) ?? 0) + row.bytes);
+    }
+    tables = [...groups.entries()].map(([name, bytes]) => ({ name, bytes })).sort((a, b) => b.bytes - a.bytes);
+  } catch {
+    // SQLite built without SQLITE_ENABLE_DBSTAT_VTAB
+  }
+
+  return { fileBytes, tables };
+}
+
+// Build the requested reports (all of them by default)
+export function buildStatsReport(
+  db: Database,
+  sources: MemorySource[],
+  reports: readonly StatsReportName[] = STATS_REPORTS,
+  options: StatsOptions = DEFAULT_STATS_OPTIONS
+): StatsReport {
+  const report: StatsReport = {};
+  for (const name of reports) {
+    switch (name) {
+      case "summary":
+        report.summary = getSummary(db);
+        break;
+      case "growth":
+        report.growth = getGrowth(db, sources, options);
+        break;
+      case "tags":
+        report.tags = getTagLeaderboard(db, options.top);
+        break;
+      case "ratings":
+        report.ratingDistribution = getRatingReport(db, options);
+        break;
+      case "scores":
+        report.scores = getScoreBreakdown(db);
+        break;
+      case "largest":
+        report.largest = getLargestDocuments(db, options.top);
+        break;
+      case "stale":
+        report.stale = getStaleSources(db, sources, options.staleDays);
+        break;
+      case "storage":
+        report.storage = getStorage(db);
+        break;
+    }
+  }
+  return report;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Horizontal bar scaled to width
+function bar(value: number, max: number, width: number = 30): string {
+  if (max === 0 || value === 0) return "";
+  return "█".repeat(Math.max(1, Math.round((value / max) * width)));
+}
+
+function heading(title: string): string {
+  return `\n${colors.cyan}${colors.bold}${title}${colors.reset}`;
+}
+
+function formatSummary(summary: StatsSummary): string[] {
+  const lines = [heading("Summary")];
+  lines.push(`  Total memories: ${summary.total}`);
+  lines.push(`  Archived: ${summary.archived}`);
+  for (const [type, count] of Object.entries(summary.byType)) {
+    lines.push(`  ${type}: ${count}`);
+  }
+  if (summary.ratings) {
+    lines.push(`  Ratings: avg ${summary.ratings.average.toFixed(1)}/10, range ${summary.ratings.min}-${summary.ratings.max}, ${summary.ratings.count} rated`);
+  }
+  return lines;
+}
+
+function formatGrowth(growth: GrowthReport): string[] {
+  const unit = growth.period === "week" ? "weeks" : "months";
+  const lines = [heading(`Growth (last ${growth.buckets.length} ${unit}, from ${growth.buckets[0]})`)];
+  // Sources sharing a label are told apart by name
+  const labels = growth.sources.map((s, _, all) =>
+    all.filter((other) => other.label === s.label).length > 1 ? `${s.label}/${s.source}` : s.label
+  );
+  const width = Math.max(6, ...labels.map((label) => label.length));
+  lines.push(`  ${colors.dim}${"SOURCE".padEnd(width)}  ${"TREND".padEnd(growth.buckets.length)}  TOTAL  LAST${colors.reset}`);
+
+  const row = (label: string, counts: number[], total: number) => {
+    const last = counts[counts.length - 1];
+    const previous = counts[counts.length - 2] ?? 0;
+    const change = last < previous ? `${colors.red}↓${colors.reset}` : last > previous ? `${colors.green}↑${colors.reset}` : " ";
+    return `  ${label.padEnd(width)}  ${colors.yellow}${sparkline(counts)}${colors.reset}  ${String(total).padStart(5)}  ${String(last).padStart(4)} ${change}`;
+  };
+
+  growth.sources.forEach((source, i) => lines.push(row(labels[i], source.counts, source.total)));
+  const total = growth.totals.reduce((sum, n) => sum + n, 0);
+  lines.push(`${colors.bold}${row("ALL", growth.totals, total)}${colors.reset}`);
+  return lines;
+}
+
+function formatTags(tags: TagCount[]): string[] {
+  const lines = [heading("Top tags")];
+  if (tags.length === 0) return [...lines, "  (no tags)"];
+  const width = Math.max(...tags.map((t) => t.tag.length)) + 1;
+  const max = tags[0].count;
+  for (const { tag, count, lastUsed } of tags) {
+    lines.push(`  ${`#${tag}`.padEnd(width)}  ${String(count).padStart(4)}  ${colors.yellow}${bar(count, max, 20).padEnd(20)}${colors.reset}  ${colors.dim}last ${lastUsed}${colors.reset}`);
+  }
+  return lines;
+}
+
+function formatRatings(ratings: RatingReport): string[] {
+  const lines = [heading("Ratings")];
+  if (ratings.count === 0) return [...lines, "  (no ratings)"];
+  lines.push(`  ${ratings.count} rated, average ${ratings.average!.toFixed(1)}/10`);
+  const max = Math.max(...ratings.histogram);
+  for (let rating = 10; rating >= 1; rating--) {
+    const count = ratings.histogram[rating - 1];
+    const color = rating <= 3 ? colors.red : rating >= 8 ? colors.green : colors.yellow;
+    lines.push(`  ${String(rating).padStart(2)}  ${color}${bar(count, max).padEnd(30)}${colors.reset} ${count}`);
+  }
+  const recent = ratings.trend.averages.filter((a): a is number => a !== null);
+  const latest = recent.length > 0 ? `, latest ${recent[recent.length - 1].toFixed(1)}` : "";
+  lines.push(`  Trend  ${colors.yellow}${sparkline(ratings.trend.averages)}${colors.reset}  ${colors.dim}average per period since ${ratings.trend.buckets[0]}${latest}${colors.reset}`);
+  return lines;
+}
+
+function formatScores(scores: ScoreBreakdown): string[] {
+  const lines = [heading("Importance / stability")];
+  const max = Math.max(...scores.importance, ...scores.stability);
+  lines.push(`  ${colors.dim}   ${"IMPORTANCE".padEnd(26)}STABILITY${colors.reset}`);
+  for (let level = 5; level >= 1; level--) {
+    const importance = scores.importance[level - 1];
+    const stability = scores.stability[level - 1];
+    lines.push(
+      `  ${level}  ${colors.yellow}${bar(importance, max, 18).padEnd(18)}${colors.reset} ${String(importance).padStart(5)}  ` +
+        `  ${colors.yellow}${bar(stability, max, 18).padEnd(18)}${colors.reset} ${String(stability).padStart(5)}`
+    );
+  }
+  return lines;
+}
+
+function formatLargest(largest: LargestDocument[]): string[] {
+  const lines = [heading("Largest documents")];
+  for (const doc of largest) {
+    lines.push(`  ${formatBytes(doc.bytes).padStart(9)}  ${String(doc.lines).padStart(5)} lines  ${doc.topic} ${colors.dim}${doc.file_path}${colors.reset}`);
+  }
+  return lines;
+}
+
+function formatStale(stale: StaleSource[], staleDays: number): string[] {
+  const lines = [heading(`Stale sources (no changes in ${staleDays}+ days)`)];
+  if (stale.length === 0) return [...lines, `  ${colors.green}✓ Every source changed recently${colors.reset}`];
+  for (const source of stale) {
+    const when = source.lastChanged
+      ? `last change ${source.lastChanged} (${source.daysSince} days ago)`
+      : "nothing indexed";
+    lines.push(`  ${colors.yellow}${source.label.padEnd(12)}${colors.reset} ${String(source.memories).padStart(5)} memories  ${when}`);
+  }
+  return lines;
+}
+
+function formatStorage(storage: StorageReport): string[] {
+  const lines = [heading("Storage")];
+  lines.push(`  Database file: ${formatBytes(storage.fileBytes)}`);
+  if (!storage.tables) return [...lines, `  ${colors.dim}(per-table sizes need SQLite's dbstat table)${colors.reset}`];
+  for (const table of storage.tables) {
+    lines.push(`  ${table.name.padEnd(22)} ${formatBytes(table.bytes).padStart(9)}`);
+  }
+  return lines;
+}
+
+// Render a report as terminal tables and sparklines
+export function formatStatsReport(report: StatsReport, options: StatsOptions = DEFAULT_STATS_OPTIONS): string {
+  const lines = [`${colors.bold}Memory Database Statistics${colors.reset}`];
+  if (report.summary) lines.push(...formatSummary(report.summary));
+  if (report.growth) lines.push(...formatGrowth(report.growth));
+  if (report.tags) lines.push(...formatTags(report.tags));
+  if (report.ratingDistribution) lines.push(...formatRatings(report.ratingDistribution));
+  if (report.scores) lines.push(...formatScores(report.scores));
+  if (report.largest) lines.push(...formatLargest(report.largest));
+  if (report.stale) lines.push(...formatStale(report.stale, options.staleDays));
+  if (report.storage) lines.push(...formatStorage(report.storage));
+  return lines.join("\n") + "\n";
+}
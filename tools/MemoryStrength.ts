@@ -0,0 +1,83 @@
+/**
+ * PAI Memory Strength
+ *
+ * Forgetting-curve scoring for memories. A memory's current strength is its
+ * retention (exponential decay with a half-life set by stability and
+ * lengthened by repeated access), weighted by importance, stability and rating:
+ *
+ *   retention = 2 ^ (-ageDays / halfLife)
+ *   halfLife  = HALF_LIFE_DAYS[stability] * (1 + 0.25 * log2(1 + accessCount))
+ *   strength  = retention * (importance + stability) / 10 * ratingFactor
+ *
+ * Strength is in [0, 1]. A stable, highly rated learning from three months ago
+ * (~0.7) outranks yesterday's throwaway work note (~0.5).
+ */
+
+// Half-life in days for each stability level (1-5)
+export const HALF_LIFE_DAYS: Record<number, number> = {
+  1: 7,
+  2: 21,
+  3: 60,
+  4: 180,
+  5: 720,
+};
+
+export const DEFAULT_STRENGTH_THRESHOLD = 0.2;
+
+export interface StrengthInput {
+  timestamp: string | Date;
+  importance: number; // 1-5
+  stability: number; // 1-5
+  rating?: number | null; // 1-10
+  access_count?: number | null;
+}
+
+// Importance implied by a 1-10 rating
+export function importanceFromRating(rating: number): number {
+  if (rating >= 8) return 5;
+  if (rating >= 6) return 4;
+  if (rating >= 4) return 3;
+  return 2;
+}
+
+// Parse "YYYY-MM-DD HH:MM:SS" (as stored in memories.timestamp) or a Date
+function toDate(timestamp: string | Date): Date {
+  return timestamp instanceof Date ? timestamp : new Date(timestamp.replace(" ", "T"));
+}
+
+function clampLevel(level: number): number {
+  return Math.min(5, Math.max(1, Math.round(level || 3)));
+}
+
+function halfLife(memory: StrengthInput): number {
+  const base = HALF_LIFE_DAYS[clampLevel(memory.stability)];
+  return base * (1 + 0.25 * Math.log2(1 + (memory.access_count || 0)));
+}
+
+// Weight applied to retention; unrated memories are neutral
+function weight(memory: StrengthInput): number {
+  const ratingFactor = memory.rating ? 0.8 + memory.rating / 25 : 1;
+  return ((clampLevel(memory.importance) + clampLevel(memory.stability)) / 10) * ratingFactor;
+}
+
+function ageInDays(memory: StrengthInput, now: Date): number {
+  const time = toDate(memory.timestamp).getTime();
+  if (isNaN(time)) return 0;
+  return Math.max(0, (now.getTime() - time) / (1000 * 60 * 60 * 24));
+}
+
+// Current strength of a memory, in [0, 1]
+export function computeStrength(memory: StrengthInput, now: Date = new Date()): number {
+  const retention = Math.pow(2, -ageInDays(memory, now) / halfLife(memory));
+  return Math.min(1, retention * weight(memory));
+}
+
+// Days from now until strength drops below threshold (0 if already below,
+// Infinity if it never will)
+export function daysUntilBelow(memory: StrengthInput, threshold: number, now: Date = new Date()): number {
+  const w = weight(memory);
+  if (w < threshold) return 0;
+  const crossingAge = -halfLife(memory) * Math.log2(threshold / Math.min(1, w));
+  if (!isFinite(crossingAge)) return Infinity;
+  return Math.max(0, crossingAge - ageInDays(memory, now));
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for export/import (MemoryTransfer.ts through MemoryDatabase.ts)
+ *
+ * Run: bun test tools/
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import { createTestHome } from "./TestHome";
+import type { TestHome } from "./TestHome";
+
+const LEARNING = ".claude/MEMORY/LEARNING/ALGORITHM/2026-10/2026-10-01-100000_LEARNING_tokens.md";
+
+let home: TestHome;
+
+function database(...args: string[]): { stdout: string; stderr: string } {
+  const result = home.run("MemoryDatabase.ts", args);
+  expect(result.code).toBe(0);
+  return result;
+}
+
+// An export file with one memory record per stored path
+function exportFile(...storedPaths: string[]): string {
+  const header = { kind: "header", format: "pai-memory-export", version: 1, exported_at: "", filters: {}, memories: 0 };
+  const records = storedPaths.map((file_path, i) => ({
+    kind: "memory",
+    id: `algo_${i}`,
+    file_path,
+    mtime: Date.now(),
+    timestamp: "2026-10-01T10:00:00Z",
+    type: "learning",
+    topic: "Injected",
+    rating: null,
+    tags: "",
+    importance: 3,
+    stability: 3,
+    pinned: false,
+    content: "# Injected\n",
+  }));
+  const file = home.path("incoming.jsonl");
+  fs.writeFileSync(file, [header, ...records].map((record) => JSON.stringify(record)).join("\n") + "\n");
+  return file;
+}
+
+beforeEach(() => {
+  home = createTestHome();
+});
+
+afterEach(() => {
+  home.remove();
+});
+
+describe("import", () => {
+  test("rejects paths outside every memory source", () => {
+    const bashrc = home.write(".bashrc", "export PATH=/usr/bin\n");
+    const file = exportFile("~/.bashrc", "MEMORY/../../.bashrc", "../../etc/escaped.md", "MEMORY/LEARNING/ALGORITHM/2026-10/ok.md");
+
+    const result = database("import", file, "--policy", "overwrite");
+    expect(result.stdout).toContain("Wrote 1 memories, skipped 3");
+    expect(result.stderr).toContain("Rejected 3 memories");
+    expect(result.stderr).toContain("~/.bashrc");
+    expect(fs.readFileSync(bashrc, "utf-8")).toBe("export PATH=/usr/bin\n");
+    expect(fs.existsSync(home.path("../etc/escaped.md"))).toBe(false);
+    expect(fs.existsSync(home.path(".claude/MEMORY/LEARNING/ALGORITHM/2026-10/ok.md"))).toBe(true);
+  });
+
+  test("writes into the active profile", () => {
+    database("profiles", "create", "acme");
+    const file = exportFile("MEMORY/LEARNING/ALGORITHM/2026-10/shared.md");
+
+    database("--profile", "acme", "import", file);
+    expect(fs.existsSync(home.path(".claude/profiles/acme/MEMORY/LEARNING/ALGORITHM/2026-10/shared.md"))).toBe(true);
+    expect(fs.existsSync(home.path(".claude/MEMORY/LEARNING/ALGORITHM/2026-10/shared.md"))).toBe(false);
+  });
+
+  test("round-trips content, mtime and metadata", () => {
+    const content = "# Token rotation\n\nAsk bob@example.com before rotating.\n";
+    const filePath = home.write(LEARNING, content, 10);
+    const mtime = fs.statSync(filePath).mtimeMs;
+    database("sync");
+    database("update", "algo_2026-10_2026-10-01-100000_LEARNING_tokens", "--importance", "5");
+
+    const file = home.path("backup.jsonl");
+    database("export", "--out", file);
+    fs.rmSync(filePath);
+    database("sync");
+
+    database("import", file);
+    expect(fs.readFileSync(filePath, "utf-8")).toBe(content);
+    expect(Math.floor(fs.statSync(filePath).mtimeMs)).toBe(Math.floor(mtime));
+    const shown = database("show", "algo_2026-10_2026-10-01-100000_LEARNING_tokens").stdout;
+    expect(shown).toMatch(/Importance: +5 \(set by hand\)/);
+  });
+});
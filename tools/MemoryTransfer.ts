@@ -0,0 +1,301 @@
+/**
+ * PAI Memory Transfer
+ *
+ * Portable export/import of the memory store, for moving memories between
+ * machines or merging a teammate's shared learnings.
+ *
+ * An export is a JSONL file: a header record, then one record per memory
+ * (metadata plus the full markdown source, read from the file or its
+ * archive bundle, never the redacted copy in memory.db), then the STATE files
+ * session-continuity.json and memory-index.json. Import writes the markdown
+ * files back to their original paths, moved into the active profile and
+ * only inside a configured memory source; the next sync indexes them, and the
+ * exported importance/stability/rating/tags are then applied on top. Pins
+ * and fields set by hand (see MemoryManual.ts) carry over and survive later
+ * syncs.
+ */
+
+import { Database } from "bun:sqlite";
+import * as path from "path";
+import * as fs from "fs";
+import { JOURNAL_DIR, MEMORY_DIR, STATE_DIR } from "./MemoryPaths";
+import { belongsToSource, resolveStoredPath, toStoredPath } from "./MemorySources";
+import { readBundle } from "./MemoryArchive";
+import type { ArchiveEntry } from "./MemoryArchive";
+import { applyOverrides } from "./MemoryManual";
+import type { MemoryOverrides } from "./MemoryManual";
+import type { MemorySource } from "./types/memory";
+
+export const EXPORT_FORMAT = "pai-memory-export";
+export const EXPORT_VERSION = 1;
+export const STATE_FILES = ["session-continuity.json", "memory-index.json"];
+
+export type ConflictPolicy = "skip" | "overwrite" | "newer";
+
+export interface ExportFilters {
+  type?: string;
+  tag?: string; // With or without the leading #
+  since?: string; // YYYY-MM-DD, inclusive
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ExportHeader {
+  kind: "header";
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  filters: ExportFilters;
+  memories: number;
+  left_out?: LeftOutMemory[]; // Matching memories that are not in the export
+}
+
+// A memory the filters matched but the export could not include
+export interface LeftOutMemory {
+  id: string;
+  file_path: string;
+  reason: "encrypted" | "file missing";
+}
+
+export interface MemoryRecord {
+  kind: "memory";
+  id: string;
+  file_path: string; // Stored path (see MemorySources.toStoredPath)
+  timestamp: string;
+  type: string;
+  topic: string;
+  rating: number | null;
+  tags: string;
+  importance: number;
+  stability: number;
+  mtime: number; // Source file mtime in ms
+  pinned?: boolean; // Missing in exports made before pins existed
+  overrides?: MemoryOverrides | null; // Fields set by hand
+  content: string; // Full markdown source (the file, not the indexed copy)
+}
+
+export interface StateRecord {
+  kind: "state";
+  name: string; // File name in MEMORY/STATE
+  mtime: number;
+  data: unknown;
+}
+
+export type ExportRecord = ExportHeader | MemoryRecord | StateRecord;
+
+export interface ImportReport {
+  written: number;
+  skipped: number; // Including rejected
+  rejected: { id: string; file_path: string }[]; // Paths outside every memory source
+  state: string[]; // STATE files written
+  imported: MemoryRecord[]; // Memory records whose file was written, with the path they were written to
+}
+
+// Build export records for memories matching the filters, plus STATE files.
+// Content comes from the source file (or archive bundle), since the indexed
+// copy is redacted. Encrypted memories (sensitive sources) are never
+// exported; they and memories whose file is gone are listed in the header's
+// left_out.
+export function exportMemories(db: Database, filters: ExportFilters, includeState: boolean = true): ExportRecord[] {
+  const tag = filters.tag ? (filters.tag.startsWith("#") ? filters.tag : `#${filters.tag}`) : null;
+
+  const rows = db.prepare(`
+    SELECT id, file_path, timestamp, type, topic, rating, tags, importance, stability, pinned, overrides,
+           encrypted, archive_bundle
+    FROM memories
+    WHERE (?1 IS NULL OR type = ?1)
+      AND (?2 IS NULL OR ' ' || tags || ' ' LIKE '% ' || ?2 || ' %')
+      AND (?3 IS NULL OR date(timestamp) >= ?3)
+      AND (?4 IS NULL OR date(timestamp) <= ?4)
+    ORDER BY timestamp, id
+  `).all(filters.type ?? null, tag, filters.since ?? null, filters.until ?? null) as any[];
+
+  const memories: MemoryRecord[] = [];
+  const leftOut: LeftOutMemory[] = [];
+  const bundles = new Map<string, ArchiveEntry[]>();
+
+  for (const { encrypted, archive_bundle, ...row } of rows) {
+    if (encrypted) {
+      leftOut.push({ id: row.id, file_path: row.file_path, reason: "encrypted" });
+      continue;
+    }
+
+    let source: { content: string; mtime: number } | null = null;
+    if (archive_bundle) {
+      if (!bundles.has(archive_bundle)) bundles.set(archive_bundle, readBundle(archive_bundle));
+      source = bundles.get(archive_bundle)!.find((entry) => entry.id === row.id) ?? null;
+    } else {
+      const filePath = resolveStoredPath(row.file_path);
+      if (fs.existsSync(filePath)) {
+        source = { content: fs.readFileSync(filePath, "utf-8"), mtime: Math.floor(fs.statSync(filePath).mtimeMs) };
+      }
+    }
+    if (!source) {
+      leftOut.push({ id: row.id, file_path: row.file_path, reason: "file missing" });
+      continue;
+    }
+
+    memories.push({
+      kind: "memory",
+      ...row,
+      mtime: source.mtime,
+      pinned: Boolean(row.pinned),
+      overrides: row.overrides ? JSON.parse(row.overrides) : null,
+      content: source.content,
+    });
+  }
+
+  const records: ExportRecord[] = [
+    {
+      kind: "header",
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      filters,
+      memories: memories.length,
+      left_out: leftOut,
+    },
+    ...memories,
+  ];
+
+  if (includeState) {
+    for (const name of STATE_FILES) {
+      const file = path.join(STATE_DIR, name);
+      if (!fs.existsSync(file)) continue;
+      records.push({
+        kind: "state",
+        name,
+        mtime: Math.floor(fs.statSync(file).mtimeMs),
+        data: JSON.parse(fs.readFileSync(file, "utf-8")),
+      });
+    }
+  }
+
+  return records;
+}
+
+export function formatExport(records: ExportRecord[]): string {
+  return records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+}
+
+// Parse and validate an export file
+export function readExport(file: string): ExportRecord[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf-8");
+  } catch (error: any) {
+    const reason = error.code === "ENOENT" ? "no such file" : error.code === "EISDIR" ? "is a directory" : error.message;
+    throw new Error(`Cannot read export file ${file}: ${reason}`);
+  }
+  const lines = text.split("\n").filter((line) => line.trim());
+  const records = lines.map((line, i) => {
+    try {
+      return JSON.parse(line) as ExportRecord;
+    } catch {
+      throw new Error(`${file}:${i + 1}: invalid JSON`);
+    }
+  });
+
+  const header = records[0];
+  if (!header || header.kind !== "header" || header.format !== EXPORT_FORMAT) {
+    throw new Error(`${file}: not a ${EXPORT_FORMAT} file (missing header record)`);
+  }
+  if (header.version > EXPORT_VERSION) {
+    throw new Error(`${file}: export version ${header.version} is newer than supported version ${EXPORT_VERSION}`);
+  }
+
+  return records;
+}
+
+// Whether an incoming record should replace what is already on disk
+function shouldWrite(target: string, incomingMtime: number, policy: ConflictPolicy): boolean {
+  if (!fs.existsSync(target)) return true;
+  if (policy === "overwrite") return true;
+  if (policy === "newer") return incomingMtime > fs.statSync(target).mtimeMs;
+  return false;
+}
+
+function writeWithMtime(target: string, content: string, mtime: number): void {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content, "utf-8");
+  fs.utimesSync(target, new Date(), new Date(mtime));
+}
+
+// Where a stored path from an export is written. The MEMORY tree and the
+// journal of any profile (MEMORY/..., profiles/<name>/MEMORY/...,
+// ~/vault/journal/..., profiles/<name>/journal/...) map to the same place in
+// the active profile; other paths resolve as they are.
+export function importTarget(storedPath: string): string {
+  const memory = storedPath.match(/^(?:profiles\/[^/]+\/)?MEMORY\/(.+)$/);
+  if (memory) return path.join(MEMORY_DIR, memory[1]);
+  const journal = storedPath.match(/^(?:profiles\/[^/]+\/journal|~\/vault\/journal)\/(.+)$/);
+  if (journal) return path.join(JOURNAL_DIR, journal[1]);
+  return path.resolve(resolveStoredPath(storedPath));
+}
+
+// Write memory files and STATE files from an export, honouring the policy.
+// A memory is only written inside one of the sources, so an export file
+// cannot put files anywhere else (~/.bashrc, ../../..); others are rejected.
+export function importRecords(
+  records: ExportRecord[],
+  policy: ConflictPolicy,
+  sources: MemorySource[],
+  options: { dryRun?: boolean } = {}
+): ImportReport {
+  const report: ImportReport = { written: 0, skipped: 0, rejected: [], state: [], imported: [] };
+
+  for (const record of records) {
+    if (record.kind === "memory") {
+      const target = typeof record.file_path === "string" ? importTarget(record.file_path) : null;
+      if (!target || !belongsToSource(sources, target)) {
+        report.skipped++;
+        report.rejected.push({ id: String(record.id), file_path: String(record.file_path) });
+        continue;
+      }
+      if (!shouldWrite(target, record.mtime, policy)) {
+        report.skipped++;
+        continue;
+      }
+      if (!options.dryRun) writeWithMtime(target, record.content, record.mtime);
+      report.written++;
+      report.imported.push({ ...record, file_path: toStoredPath(target) });
+    } else if (record.kind === "state") {
+      if (!STATE_FILES.includes(record.name)) continue;
+      const target = path.join(STATE_DIR, record.name);
+      if (!shouldWrite(target, record.mtime, policy)) continue;
+      if (!options.dryRun) writeWithMtime(target, JSON.stringify(record.data, null, 2), record.mtime);
+      report.state.push(record.name);
+    }
+  }
+
+  return report;
+}
+
+// After a sync, carry the exported metadata over to the imported rows. Rows
+// are matched by file path, since the importing machine's sources decide ids.
+export function applyImportedMetadata(db: Database, imported: MemoryRecord[]): number {
+  const update = db.prepare(`
+    UPDATE memories
+    SET rating = ?, tags = ?, importance = ?, stability = ?, pinned = ?, overrides = ?
+    WHERE file_path = ?
+  `);
+  const findIds = db.prepare("SELECT id FROM memories WHERE file_path = ?");
+  let applied = 0;
+  db.transaction(() => {
+    for (const record of imported) {
+      const overrides = record.overrides && Object.keys(record.overrides).length > 0 ? JSON.stringify(record.overrides) : null;
+      applied += update.run(
+        record.rating,
+        record.tags,
+        record.importance,
+        record.stability,
+        record.pinned ? 1 : 0,
+        overrides,
+        record.file_path
+      ).changes;
+      if (overrides) {
+        for (const { id } of findIds.all(record.file_path) as { id: string }[]) applyOverrides(db, id);
+      }
+    }
+  })();
+  return applied;
+}
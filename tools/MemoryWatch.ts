@@ -0,0 +1,118 @@
+/**
+ * PAI Memory Watch
+ *
+ * File watching behind `MemoryDatabase.ts watch`: a recursive fs.watch on
+ * every source root, debounced into batches of changed paths, and the
+ * STATE/memory-watch.json status file.
+ *
+ * The status file is rewritten on every heartbeat and after every batch, so
+ * hooks can skip their own sync while a live watcher keeps memory.db fresh:
+ *
+ *   const status = readWatchStatus();
+ *   if (!status || !isWatchAlive(status)) await sync();
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { STATE_DIR } from "./MemoryPaths";
+import { expandRoot } from "./MemorySources";
+import { processExists } from "./MemoryLock";
+import type { MemorySource } from "./types/memory";
+
+export const WATCH_STATUS_FILE = path.join(STATE_DIR, "memory-watch.json");
+export const DEFAULT_DEBOUNCE_MS = 500;
+export const DEFAULT_HEARTBEAT_MS = 30_000;
+export const DEFAULT_RESYNC_MINUTES = 60;
+
+export interface WatchStatus {
+  state: "running" | "stopped";
+  pid: number;
+  startedAt: string;
+  heartbeatAt: string; // Rewritten every heartbeatMs while running
+  heartbeatMs: number;
+  stoppedAt: string | null;
+  lastSyncAt: string | null; // Last batch or full resync
+  roots: string[]; // Watched directories
+  missing: string[]; // Source roots that did not exist at startup
+  totals: { batches: number; added: number; updated: number; removed: number };
+  lastError: string | null;
+}
+
+export interface PathWatcher {
+  // Stop watching; returns changes still waiting for the debounce timer
+  close(): string[];
+}
+
+// Directories to watch: each existing source root, skipping roots nested in
+// another watched root
+export function watchRoots(sources: MemorySource[]): { roots: string[]; missing: string[] } {
+  const all = [...new Set(sources.map((s) => expandRoot(s.root)))];
+  const missing = all.filter((root) => !fs.existsSync(root));
+  const existing = all.filter((root) => fs.existsSync(root)).sort();
+  const roots = existing.filter((root) => !existing.some((other) => other !== root && root.startsWith(other + "/")));
+  return { roots, missing };
+}
+
+// Watch the roots recursively and hand over changed absolute paths once no
+// new event has arrived for debounceMs
+export function watchPaths(
+  roots: string[],
+  debounceMs: number,
+  onBatch: (paths: string[]) => void,
+  onError: (error: Error) => void
+): PathWatcher {
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    const paths = [...pending];
+    pending = new Set();
+    if (paths.length > 0) onBatch(paths);
+  };
+
+  const watchers = roots.map((root) => {
+    const watcher = fs.watch(root, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+      pending.add(path.join(root, filename.toString()));
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    });
+    watcher.on("error", onError);
+    return watcher;
+  });
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      for (const watcher of watchers) watcher.close();
+      const paths = [...pending];
+      pending = new Set();
+      return paths;
+    },
+  };
+}
+
+export function readWatchStatus(): WatchStatus | null {
+  try {
+    return JSON.parse(fs.readFileSync(WATCH_STATUS_FILE, "utf-8")) as WatchStatus;
+  } catch {
+    return null;
+  }
+}
+
+// Replace the status file atomically so readers never see a partial write
+export function writeWatchStatus(status: WatchStatus): void {
+  fs.mkdirSync(path.dirname(WATCH_STATUS_FILE), { recursive: true });
+  const tmp = `${WATCH_STATUS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(status, null, 2), "utf-8");
+  fs.renameSync(tmp, WATCH_STATUS_FILE);
+}
+
+// A watcher is alive if it says it is running, its process exists, and its
+// last heartbeat is no older than two intervals
+export function isWatchAlive(status: WatchStatus, now: Date = new Date()): boolean {
+  if (status.state !== "running" || !processExists(status.pid)) return false;
+  return now.getTime() - new Date(status.heartbeatAt).getTime() <= 2 * status.heartbeatMs;
+}
@@ -7,6 +7,7 @@
  * - Yesterday's work session summary
  * - Active projects and open items
  * - Recent learnings from MEMORY/LEARNING
+ * - Pinned memories (MemoryDatabase.ts pin), every time
  *
  * TypeScript Learning Points:
  * 1. Importing from other modules
@@ -20,10 +21,14 @@ import { execSync } from 'child_process';
 import { join } from 'path';
 import { readFileSync, readdirSync, statSync } from 'fs';
 import { getCurrentWorkState } from './CurrentWorkManager';
-import type { SessionContext, MemorySearchResult } from './types/memory';
+import { computeStrength, importanceFromRating } from './MemoryStrength';
+import { parseLearning } from './LearningParser';
+import { ansi, parseOutputFormat, withoutOutputFlags, writeDocument } from './CliOutput';
+import { isSensitivePath, loadCachedKey } from './MemoryCrypto';
+import { MEMORY_DIR, JOURNAL_DIR, requireActiveProfile, withoutProfileFlag } from './MemoryPaths';
+import { loadPinnedMemories } from './MemoryManual';
+import type { SessionContext, SessionDelta, MemorySearchResult } from './types/memory';
 
-const PAI_HOME = process.env.PAI_HOME || `${process.env.HOME}/.claude`;
-const JOURNAL_DIR = `${process.env.HOME}/vault/journal`;
 
 /**
  * Load session context for the current session
@@ -36,13 +41,15 @@ export async function loadSessionContext(sinceDate?: Date): Promise<SessionConte
     const yesterday = await loadYesterdayContext();
     const workState = getCurrentWorkState();
     const recentLearnings = await loadRecentLearnings(sinceDate);
+    const pinnedMemories = loadPinnedMemories();
 
     // TypeScript: Object must match SessionContext interface
     const context: SessionContext = {
       yesterday,
       activeProjects: workState.activeProjects,
       openItems: workState.openItems,
-      recentLearnings
+      recentLearnings,
+      pinnedMemories
     };
 
     return context;
@@ -58,7 +65,8 @@ export async function loadSessionContext(sinceDate?: Date): Promise<SessionConte
       },
       activeProjects: [],
       openItems: [],
-      recentLearnings: []
+      recentLearnings: [],
+      pinnedMemories: []
     };
   }
 }
@@ -67,55 +75,72 @@ export async function loadSessionContext(sinceDate?: Date): Promise<SessionConte
  * Load lightweight delta context (only what changed since a given time)
  * Used for same-day sessions after morning context has been loaded
  */
+export async function loadSessionDelta(since: Date): Promise<SessionDelta> {
+  const workState = getCurrentWorkState();
+
+  return {
+    since: since.toISOString(),
+    hoursSinceLoad: Math.floor((new Date().getTime() - since.getTime()) / (1000 * 60 * 60)),
+    recentSessions: await extractRecentSessionWork(since),
+    newLearnings: await loadRecentLearnings(since),
+    openItems: workState.openItems.slice(0, 3)
+  };
+}
+
+/**
+ * Load the delta context formatted for display
+ */
 export async function loadDeltaContext(since: Date): Promise<string> {
   try {
-    const workState = getCurrentWorkState();
-    const newLearnings = await loadRecentLearnings(since);
-    const recentSessions = await extractRecentSessionWork(since);
-
-    const lines: string[] = [];
-    lines.push('🔄 SESSION RESUME (Delta since morning)');
-    lines.push('═'.repeat(50));
-    lines.push('');
-
-    const hoursAgo = Math.floor((new Date().getTime() - since.getTime()) / (1000 * 60 * 60));
-    lines.push(`⏰ Last full load: ${hoursAgo}h ago`);
-    lines.push('');
+    return formatSessionDelta(await loadSessionDelta(since));
+  } catch (error) {
+    console.error('Error loading delta context:', error);
+    return 'Unable to load delta context';
+  }
+}
 
-    // Show recent session work extracted from learning captures
-    if (recentSessions.length > 0) {
-      lines.push('🔨 RECENT SESSIONS:');
-      recentSessions.forEach(session => lines.push(`  • ${session}`));
-      lines.push('');
-    }
+/**
+ * Format a session delta for display
+ */
+export function formatSessionDelta(delta: SessionDelta): string {
+  const lines: string[] = [];
+  lines.push('🔄 SESSION RESUME (Delta since morning)');
+  lines.push('═'.repeat(50));
+  lines.push('');
 
-    // Only show NEW learnings
-    if (newLearnings.length > 0) {
-      lines.push('🆕 NEW LEARNINGS SINCE MORNING:');
-      newLearnings.forEach(learning => lines.push(`  • ${learning}`));
-      lines.push('');
-    }
+  lines.push(`⏰ Last full load: ${delta.hoursSinceLoad}h ago`);
+  lines.push('');
 
-    // Always show current open items (lightweight)
-    if (workState.openItems.length > 0) {
-      lines.push('📝 CURRENT OPEN ITEMS:');
-      workState.openItems.slice(0, 3).forEach(item => {
-        const priority = item.priority ? `[${item.priority.toUpperCase()}]` : '';
-        lines.push(`  ${priority} ${item.description}`);
-      });
-      lines.push('');
-    }
+  // Show recent session work extracted from learning captures
+  if (delta.recentSessions.length > 0) {
+    lines.push('🔨 RECENT SESSIONS:');
+    delta.recentSessions.forEach(session => lines.push(`  • ${session}`));
+    lines.push('');
+  }
 
-    lines.push('💡 Full context from this morning still active');
-    lines.push('   (Tasks, weather, priorities loaded at startup)');
+  // Only show NEW learnings
+  if (delta.newLearnings.length > 0) {
+    lines.push('🆕 NEW LEARNINGS SINCE MORNING:');
+    delta.newLearnings.forEach(learning => lines.push(`  • ${learning}`));
     lines.push('');
-    lines.push('═'.repeat(50));
+  }
 
-    return lines.join('\n');
-  } catch (error) {
-    console.error('Error loading delta context:', error);
-    return 'Unable to load delta context';
+  // Always show current open items (lightweight)
+  if (delta.openItems.length > 0) {
+    lines.push('📝 CURRENT OPEN ITEMS:');
+    delta.openItems.forEach(item => {
+      const priority = item.priority ? `[${item.priority.toUpperCase()}]` : '';
+      lines.push(`  ${priority} ${item.description}`);
+    });
+    lines.push('');
   }
+
+  lines.push('💡 Full context from this morning still active');
+  lines.push('   (Tasks, weather, priorities loaded at startup)');
+  lines.push('');
+  lines.push('═'.repeat(50));
+
+  return lines.join('\n');
 }
 
 /**
@@ -132,8 +157,11 @@ async function loadYesterdayContext(): Promise<SessionContext['yesterday']> {
     const journalFile = join(JOURNAL_DIR, `${yesterdayStr}.md`);
     let journalContent = '';
 
+    // A journal in a sensitive source is only read while unlocked
+    const journalLocked = isSensitivePath(journalFile) && !loadCachedKey();
+
     try {
-      journalContent = readFileSync(journalFile, 'utf-8');
+      if (!journalLocked) journalContent = readFileSync(journalFile, 'utf-8');
     } catch {
       // Journal doesn't exist - that's ok
     }
@@ -145,9 +173,10 @@ async function loadYesterdayContext(): Promise<SessionContext['yesterday']> {
     const workSummary = await searchYesterdayWork(yesterdayStr);
 
     return {
-      summary: sessionSummary || workSummary || 'No work session found',
+      summary: sessionSummary || workSummary || (journalLocked ? 'Journal locked' : 'No work session found'),
       workDone: extractWorkDone(journalContent),
-      carryForward: extractCarryForward(journalContent)
+      carryForward: extractCarryForward(journalContent),
+      journalLocked
     };
   } catch (error) {
     console.error('Error loading yesterday context:', error);
@@ -218,7 +247,7 @@ function extractCarryForward(journalContent: string): string[] {
  */
 async function searchYesterdayWork(yesterdayStr: string): Promise<string | null> {
   try {
-    const WORK_DIR = join(PAI_HOME, 'MEMORY', 'WORK');
+    const WORK_DIR = join(MEMORY_DIR, 'WORK');
 
     // TypeScript: readdirSync returns string[]
     const sessions = readdirSync(WORK_DIR)
@@ -261,7 +290,7 @@ async function searchYesterdayWork(yesterdayStr: string): Promise<string | null>
  */
 async function extractRecentSessionWork(since: Date): Promise<string[]> {
   try {
-    const LEARNING_DIR = join(PAI_HOME, 'MEMORY', 'LEARNING', 'ALGORITHM');
+    const LEARNING_DIR = join(MEMORY_DIR, 'LEARNING', 'ALGORITHM');
     const sessions: string[] = [];
 
     // Get current year-month
@@ -327,12 +356,15 @@ async function extractRecentSessionWork(since: Date): Promise<string[]> {
 /**
  * Load recent learnings from MEMORY/LEARNING
  *
+ * Learnings inside the window are ranked by current strength (see
+ * MemoryStrength.ts), so a highly rated learning beats a newer throwaway one.
+ *
  * @param since - Optional: Only return learnings created after this date
  */
 async function loadRecentLearnings(since?: Date): Promise<string[]> {
   try {
-    const LEARNING_DIR = join(PAI_HOME, 'MEMORY', 'LEARNING');
-    const learnings: string[] = [];
+    const LEARNING_DIR = join(MEMORY_DIR, 'LEARNING');
+    const candidates: { summary: string; strength: number }[] = [];
 
     // Get current year-month dynamically
     const now = new Date();
@@ -348,89 +380,77 @@ async function loadRecentLearnings(since?: Date): Promise<string[]> {
     // Search ALGORITHM and SYSTEM directories
     for (const subdir of ['ALGORITHM', 'SYSTEM']) {
       const dir = join(LEARNING_DIR, subdir);
-      const monthDir = join(dir, currentMonth);
 
       try {
-        const files = readdirSync(monthDir)
-          .filter(f => f.endsWith('.md') && !f.includes('sentiment-rating')) // Skip auto sentiment files
-          .map(f => ({
-            name: f,
-            path: join(monthDir, f),
-            mtime: statSync(join(monthDir, f)).mtime
-          }))
-          .filter(f => f.mtime > cutoffDate)
-          .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()) // Most recent first
-          .slice(0, 5); // Top 5
-
-        // Extract key sections from files
-        for (const file of files) {
-          try {
-            const content = readFileSync(file.path, 'utf-8');
-            const titleMatch = content.match(/^# (.+)$/m);
-
-            if (titleMatch) {
-              const title = titleMatch[1];
-
-              // Extract date from filename
-              const dateMatch = file.name.match(/^(\d{4}-\d{2}-\d{2})/);
-              const date = dateMatch ? dateMatch[1] : 'Recent';
-
-              // Create compact learning summary
-              const learningSummary = `[${date}] ${title}`;
-              learnings.push(learningSummary);
-            }
-          } catch {
-            // Skip if can't read
-          }
-        }
+        candidates.push(...collectLearnings(join(dir, currentMonth), cutoffDate, now));
       } catch {
         // Directory might not exist - try previous month
         const prevMonth = now.getMonth() === 0 ? 12 : now.getMonth();
         const prevYear = now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear();
         const prevMonthStr = `${prevYear}-${String(prevMonth).padStart(2, '0')}`;
-        const prevMonthDir = join(dir, prevMonthStr);
 
         try {
-          const files = readdirSync(prevMonthDir)
-            .filter(f => f.endsWith('.md') && !f.includes('sentiment-rating'))
-            .map(f => ({
-              name: f,
-              path: join(prevMonthDir, f),
-              mtime: statSync(join(prevMonthDir, f)).mtime
-            }))
-            .filter(f => f.mtime > cutoffDate)
-            .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())
-            .slice(0, 2);
-
-          for (const file of files) {
-            try {
-              const content = readFileSync(file.path, 'utf-8');
-              const titleMatch = content.match(/^# (.+)$/m);
-
-              if (titleMatch) {
-                const title = titleMatch[1];
-                const dateMatch = file.name.match(/^(\d{4}-\d{2}-\d{2})/);
-                const date = dateMatch ? dateMatch[1] : 'Recent';
-                const learningSummary = `[${date}] ${title}`;
-                learnings.push(learningSummary);
-              }
-            } catch {
-              // Skip if can't read
-            }
-          }
+          candidates.push(...collectLearnings(join(dir, prevMonthStr), cutoffDate, now));
         } catch {
           // Previous month directory doesn't exist either
         }
       }
     }
 
-    return learnings.slice(0, 5); // Max 5 learnings
+    // Strongest first
+    return candidates
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, 5) // Max 5 learnings
+      .map(c => c.summary);
   } catch (error) {
     console.error('Error loading recent learnings:', error);
     return [];
   }
 }
 
+/**
+ * Read learnings modified after the cutoff from one month directory and score
+ * their current strength. Throws if the directory can't be read.
+ */
+function collectLearnings(monthDir: string, cutoffDate: Date, now: Date): { summary: string; strength: number }[] {
+  const candidates: { summary: string; strength: number }[] = [];
+
+  const files = readdirSync(monthDir)
+    .filter(f => f.endsWith('.md') && !f.includes('sentiment-rating')) // Skip auto sentiment files
+    .map(f => ({
+      name: f,
+      path: join(monthDir, f),
+      mtime: statSync(join(monthDir, f)).mtime
+    }))
+    .filter(f => f.mtime > cutoffDate);
+
+  for (const file of files) {
+    try {
+      // Parse warnings are left to sync/synthesis; session output stays quiet
+      const { title, date: docDate, rating } = parseLearning(readFileSync(file.path, 'utf-8'), file.path);
+
+      if (title) {
+        const date = docDate || 'Recent';
+
+        // Learnings are mostly stable (matches MemoryDatabase defaults)
+        const strength = computeStrength({
+          timestamp: docDate ? new Date(`${docDate}T12:00:00`) : file.mtime,
+          importance: rating ? importanceFromRating(rating) : 4,
+          stability: 4,
+          rating
+        }, now);
+
+        // Create compact learning summary
+        candidates.push({ summary: `[${date}] ${title}`, strength });
+      }
+    } catch {
+      // Skip if can't read
+    }
+  }
+
+  return candidates;
+}
+
 /**
  * Format session context as human-readable text
  */
@@ -444,6 +464,9 @@ export function formatSessionContext(context: SessionContext): string {
   // Yesterday's summary
   lines.push('📅 YESTERDAY');
   lines.push(`${context.yesterday.summary}`);
+  if (context.yesterday.journalLocked) {
+    lines.push('🔒 Journal locked (unlock with: bun MemoryDatabase.ts unlock)');
+  }
   if (context.yesterday.workDone.length > 0) {
     lines.push('');
     lines.push('Work completed:');
@@ -456,6 +479,13 @@ export function formatSessionContext(context: SessionContext): string {
   }
   lines.push('');
 
+  // Pinned memories
+  if (context.pinnedMemories.length > 0) {
+    lines.push('📌 PINNED');
+    context.pinnedMemories.forEach(memory => lines.push(`  • ${memory}`));
+    lines.push('');
+  }
+
   // Active projects
   if (context.activeProjects.length > 0) {
     lines.push('🎯 ACTIVE PROJECTS');
@@ -489,21 +519,43 @@ export function formatSessionContext(context: SessionContext): string {
  * CLI Interface
  */
 if (import.meta.main) {
-  const args = process.argv.slice(2);
+  const format = parseOutputFormat(process.argv.slice(2));
+  const args = withoutProfileFlag(withoutOutputFlags(process.argv.slice(2)));
   const command = args[0];
   const sinceArg = args[1]; // Optional ISO timestamp
 
+  const colors = ansi({ red: '\x1b[31m', reset: '\x1b[0m' });
+  const fail = (message: string): never => {
+    console.error(`${colors.red}Error: ${message}${colors.reset}`);
+    process.exit(1);
+  };
+
+  if (command === 'load' || !command || (command === 'delta' && sinceArg)) requireActiveProfile();
+
   if (command === 'load' || !command) {
     // Load and display full context
     loadSessionContext().then(context => {
-      console.log(formatSessionContext(context));
-    });
+      if (format === 'text') {
+        console.log(formatSessionContext(context));
+      } else {
+        writeDocument(format, 'pai.session-context', context);
+      }
+    }).catch(error => fail(error.message));
   } else if (command === 'delta' && sinceArg) {
     // Load delta context since given timestamp
     const since = new Date(sinceArg);
-    loadDeltaContext(since).then(deltaText => {
-      console.log(deltaText);
-    });
+    if (Number.isNaN(since.getTime())) {
+      fail(`Invalid timestamp "${sinceArg}" (expected a date such as 2026-02-02T08:00:00Z)`);
+    }
+    if (format === 'text') {
+      loadDeltaContext(since).then(deltaText => {
+        console.log(deltaText);
+      }).catch(error => fail(error.message));
+    } else {
+      loadSessionDelta(since).then(delta => {
+        writeDocument(format, 'pai.session-delta', delta);
+      }).catch(error => fail(error.message));
+    }
   } else {
     console.log(`
 PAI Session Context Loader
@@ -512,15 +564,21 @@ USAGE:
   bun SessionContextLoader.ts [load]              # Full context load
   bun SessionContextLoader.ts delta <timestamp>   # Delta load since timestamp
 
+OPTIONS:
+  --json      Print the context as JSON (see docs/output-schemas.md)
+  --ndjson    Same, on a single line
+
 DESCRIPTION:
   Loads relevant context at session start including:
   - Yesterday's work summary (full load only)
   - Active projects and open items
   - Recent learnings (all or delta)
+  - Pinned memories (full load only)
 
 EXAMPLES:
   bun SessionContextLoader.ts load
   bun SessionContextLoader.ts delta "2026-02-02T08:00:00Z"
+  bun SessionContextLoader.ts load --json
     `);
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Scratch HOME for the tool tests (*.test.ts)
+ *
+ * Each test gets an empty ~/.claude/MEMORY in a temp directory and runs the
+ * real tools against it as separate processes, with colors off and no
+ * PAI_* variables from the calling environment.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const TOOLS_DIR = import.meta.dir;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ToolResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface TestHome {
+  dir: string;
+  env: Record<string, string>; // For processes started by the test itself
+  path: (relPath: string) => string;
+  // Write a file under HOME, optionally with an mtime some days in the past
+  write: (relPath: string, content: string, ageDays?: number) => string;
+  run: (tool: string, args: string[], env?: Record<string, string>) => ToolResult;
+  remove: () => void;
+}
+
+export function createTestHome(): TestHome {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pai-test-"));
+  fs.mkdirSync(path.join(dir, ".claude", "MEMORY", "STATE"), { recursive: true });
+
+  const env: Record<string, string> = { NO_COLOR: "1" };
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value !== undefined && !name.startsWith("PAI_")) env[name] = value;
+  }
+  env.HOME = dir;
+
+  return {
+    dir,
+    env,
+    path: (relPath) => path.join(dir, relPath),
+    write: (relPath, content, ageDays = 0) => {
+      const filePath = path.join(dir, relPath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, "utf-8");
+      if (ageDays > 0) {
+        const time = new Date(Date.now() - ageDays * DAY_MS);
+        fs.utimesSync(filePath, time, time);
+      }
+      return filePath;
+    },
+    run: (tool, args, extraEnv = {}) => {
+      const proc = Bun.spawnSync(["bun", path.join(TOOLS_DIR, tool), ...args], {
+        env: { ...env, ...extraEnv },
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      return { code: proc.exitCode ?? 1, stdout: proc.stdout.toString(), stderr: proc.stderr.toString() };
+    },
+    remove: () => fs.rmSync(dir, { recursive: true, force: true }),
+  };
+}
@@ -11,13 +11,16 @@
  *   bun WeeklySynthesis.ts                    # Analyze past week
  *   bun WeeklySynthesis.ts --date 2026-02-01  # Analyze specific week
  *   bun WeeklySynthesis.ts --dry-run          # Preview without writing
+ *   bun WeeklySynthesis.ts --include-archived # Also read archived learnings
+ *   bun WeeklySynthesis.ts --dry-run --json   # Preview as JSON (also --ndjson)
  *
  * OUTPUT:
  *   - Creates: MEMORY/LEARNING/SYNTHESIS/YYYY-MM/Weekly-Synthesis-YYYY-MM-DD.md
  *   - Updates: MEMORY/STATE/memory-index.json
  *
  * ALGORITHM:
- *   1. Read all learnings from past 7 days
+ *   1. Read all learnings from past 7 days (skipping merged duplicates and,
+ *      unless --include-archived is given, archived learnings)
  *   2. Group by topic/theme
  *   3. Identify patterns (3+ similar situations)
  *   4. Extract key lessons
@@ -26,24 +29,32 @@
  */
 
 import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync, statSync } from 'fs';
-import { join } from 'path';
+import { join, basename } from 'path';
+import { loadAliasedPaths } from './MemoryDuplicates';
+import { loadArchivedEntries } from './MemoryArchive';
+import { resolveStoredPath } from './MemorySources';
+import { parseLearning } from './LearningParser';
+import { ansi, parseOutputFormat, writeDocument } from './CliOutput';
+import { PAI_HOME, MEMORY_DIR, STATE_DIR, requireActiveProfile, withoutProfileFlag } from './MemoryPaths';
 
-const PAI_HOME = process.env.HOME + '/.claude';
-const MEMORY_DIR = join(PAI_HOME, 'MEMORY');
 const LEARNING_DIR = join(MEMORY_DIR, 'LEARNING');
 const SYNTHESIS_DIR = join(LEARNING_DIR, 'SYNTHESIS');
-const STATE_DIR = join(MEMORY_DIR, 'STATE');
 const MEMORY_INDEX_FILE = join(STATE_DIR, 'memory-index.json');
 
-// ANSI colors
-const colors = {
+// ANSI colors (empty when not writing to a terminal, see CliOutput.ts)
+const colors = ansi({
   reset: '\x1b[0m',
   bold: '\x1b[1m',
   cyan: '\x1b[36m',
   yellow: '\x1b[33m',
   green: '\x1b[32m',
   magenta: '\x1b[35m',
-};
+});
+
+// With --json/--ndjson, stdout carries the synthesis document and progress
+// messages go to stderr
+const format = parseOutputFormat(process.argv.slice(2));
+const log = format === 'text' ? console.log : console.error;
 
 interface Learning {
   file: string;
@@ -71,6 +82,15 @@ interface SynthesisResult {
   lowRatings: Learning[];
 }
 
+// A learning as listed in --json output (content left out)
+interface LearningSummary {
+  file: string;
+  date: string;
+  title: string;
+  category: string;
+  rating: number | null;
+}
+
 /**
  * Get date range for past week
  */
@@ -91,13 +111,38 @@ function formatDate(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Build a learning record from file content (see LearningParser.ts)
+ */
+function toLearning(filePath: string, content: string, mtime: Date, category: 'ALGORITHM' | 'SYSTEM'): Learning {
+  const file = basename(filePath);
+  const doc = parseLearning(content, filePath);
+
+  for (const warning of doc.warnings) {
+    console.error(`${colors.yellow}⚠ ${file}: ${warning}${colors.reset}`);
+  }
+
+  return {
+    file,
+    path: filePath,
+    date: doc.date || formatDate(mtime),
+    title: doc.title || file.replace(/\.md$/, ''),
+    content,
+    category,
+    rating: doc.rating ?? undefined
+  };
+}
+
 /**
  * Load all learnings from a date range
  */
-async function loadLearnings(startDate: Date, endDate: Date): Promise<Learning[]> {
+async function loadLearnings(startDate: Date, endDate: Date, includeArchived: boolean): Promise<Learning[]> {
   const learnings: Learning[] = [];
   const categories: Array<'ALGORITHM' | 'SYSTEM'> = ['ALGORITHM', 'SYSTEM'];
 
+  // Duplicates merged with `MemoryDatabase.ts merge` count once, via their canonical file
+  const aliasedPaths = loadAliasedPaths();
+
   for (const category of categories) {
     const categoryDir = join(LEARNING_DIR, category);
     if (!existsSync(categoryDir)) continue;
@@ -111,34 +156,14 @@ async function loadLearnings(startDate: Date, endDate: Date): Promise<Learning[]
 
       for (const file of files) {
         const filePath = join(monthDir, file);
+        if (aliasedPaths.has(filePath)) continue;
         const stats = statSync(filePath);
 
         // Check if file is in date range
         if (stats.mtime >= startDate && stats.mtime <= endDate) {
           try {
             const content = readFileSync(filePath, 'utf-8');
-
-            // Extract title
-            const titleMatch = content.match(/^#\s+(.+)$/m);
-            const title = titleMatch ? titleMatch[1] : file.replace(/\.md$/, '');
-
-            // Extract rating
-            const ratingMatch = content.match(/(?:rating|RATE).*?(\d+)/i);
-            const rating = ratingMatch ? parseInt(ratingMatch[1]) : undefined;
-
-            // Extract date from filename
-            const dateMatch = file.match(/^(\d{4}-\d{2}-\d{2})/);
-            const date = dateMatch ? dateMatch[1] : formatDate(stats.mtime);
-
-            learnings.push({
-              file,
-              path: filePath,
-              date,
-              title,
-              content,
-              category,
-              rating
-            });
+            learnings.push(toLearning(filePath, content, stats.mtime, category));
           } catch (error) {
             console.error(`${colors.yellow}⚠ Could not read ${file}: ${error}${colors.reset}`);
           }
@@ -147,6 +172,20 @@ async function loadLearnings(startDate: Date, endDate: Date): Promise<Learning[]
     }
   }
 
+  // Archived learnings live in MEMORY/ARCHIVE bundles rather than on disk
+  if (includeArchived) {
+    for (const entry of loadArchivedEntries()) {
+      const filePath = resolveStoredPath(entry.file_path);
+      const category = categories.find(c => filePath.startsWith(join(LEARNING_DIR, c) + '/'));
+      if (!category || aliasedPaths.has(filePath)) continue;
+
+      const mtime = new Date(entry.mtime);
+      if (mtime >= startDate && mtime <= endDate) {
+        learnings.push(toLearning(filePath, entry.content, mtime, category));
+      }
+    }
+  }
+
   return learnings.sort((a, b) => a.date.localeCompare(b.date));
 }
 
@@ -358,8 +397,8 @@ function updateMemoryIndex(result: SynthesisResult, synthesisPath: string): void
     }
   }
 
-  // Add week entry
-  index.weeks = index.weeks || [];
+  // Add week entry, replacing the one from an earlier run for the same week
+  index.weeks = (index.weeks || []).filter((week: any) => week.start !== result.weekStart);
   index.weeks.push({
     start: result.weekStart,
     end: result.weekEnd,
@@ -377,8 +416,11 @@ function updateMemoryIndex(result: SynthesisResult, synthesisPath: string): void
         weeks: []
       };
     }
-    index.patterns[pattern.theme].count += pattern.occurrences;
-    index.patterns[pattern.theme].weeks.push(result.weekStart);
+    // A re-run for the same week does not count its patterns again
+    if (!index.patterns[pattern.theme].weeks.includes(result.weekStart)) {
+      index.patterns[pattern.theme].count += pattern.occurrences;
+      index.patterns[pattern.theme].weeks.push(result.weekStart);
+    }
   }
 
   // Write index
@@ -386,18 +428,49 @@ function updateMemoryIndex(result: SynthesisResult, synthesisPath: string): void
     mkdirSync(STATE_DIR, { recursive: true });
   }
   writeFileSync(MEMORY_INDEX_FILE, JSON.stringify(index, null, 2), 'utf-8');
-  console.log(`${colors.green}✓ Updated memory index${colors.reset}`);
+  log(`${colors.green}✓ Updated memory index${colors.reset}`);
+}
+
+/**
+ * Synthesis result as a pai.weekly-synthesis document (see docs/output-schemas.md)
+ */
+function toRecord(result: SynthesisResult, markdown: string, written: string | null) {
+  const summarize = (learning: Learning): LearningSummary => ({
+    file: learning.path,
+    date: learning.date,
+    title: learning.title,
+    category: learning.category,
+    rating: learning.rating ?? null
+  });
+
+  return {
+    weekStart: result.weekStart,
+    weekEnd: result.weekEnd,
+    totalLearnings: result.totalLearnings,
+    patterns: result.patterns.map(pattern => ({
+      theme: pattern.theme,
+      occurrences: pattern.occurrences,
+      insight: pattern.insight,
+      learnings: pattern.learnings.map(summarize)
+    })),
+    topInsights: result.topInsights,
+    lowRatings: result.lowRatings.map(summarize),
+    markdown,
+    written
+  };
 }
 
 /**
  * Main execution
  */
 async function main() {
-  const args = process.argv.slice(2);
+  const args = withoutProfileFlag(process.argv.slice(2));
   const dryRun = args.includes('--dry-run');
+  const includeArchived = args.includes('--include-archived');
   const dateArg = args.find(a => a.startsWith('--date='))?.split('=')[1];
+  requireActiveProfile();
 
-  console.log(`${colors.bold}${colors.cyan}Weekly Synthesis${colors.reset}\n`);
+  log(`${colors.bold}${colors.cyan}Weekly Synthesis${colors.reset}\n`);
 
   // Determine date range
   const endDate = dateArg ? new Date(dateArg) : new Date();
@@ -405,29 +478,37 @@ async function main() {
   const weekStart = formatDate(start);
   const weekEnd = formatDate(end);
 
-  console.log(`📅 Analyzing week: ${weekStart} to ${weekEnd}\n`);
+  log(`📅 Analyzing week: ${weekStart} to ${weekEnd}\n`);
 
   // Load learnings
-  console.log(`${colors.cyan}Loading learnings...${colors.reset}`);
-  const learnings = await loadLearnings(start, end);
-  console.log(`${colors.green}✓ Loaded ${learnings.length} learnings${colors.reset}\n`);
+  log(`${colors.cyan}Loading learnings...${colors.reset}`);
+  const learnings = await loadLearnings(start, end, includeArchived);
+  log(`${colors.green}✓ Loaded ${learnings.length} learnings${colors.reset}\n`);
 
   if (learnings.length === 0) {
-    console.log(`${colors.yellow}No learnings found for this week${colors.reset}`);
+    log(`${colors.yellow}No learnings found for this week${colors.reset}`);
+    if (format !== 'text') {
+      const empty = synthesize([], weekStart, weekEnd);
+      writeDocument(format, 'pai.weekly-synthesis', toRecord(empty, generateMarkdown(empty), null));
+    }
     process.exit(0);
   }
 
   // Synthesize
-  console.log(`${colors.cyan}Identifying patterns...${colors.reset}`);
+  log(`${colors.cyan}Identifying patterns...${colors.reset}`);
   const result = synthesize(learnings, weekStart, weekEnd);
-  console.log(`${colors.green}✓ Found ${result.patterns.length} patterns${colors.reset}\n`);
+  log(`${colors.green}✓ Found ${result.patterns.length} patterns${colors.reset}\n`);
 
   // Generate markdown
   const markdown = generateMarkdown(result);
 
   if (dryRun) {
-    console.log(`${colors.yellow}DRY RUN - Preview:${colors.reset}\n`);
-    console.log(markdown);
+    if (format !== 'text') {
+      writeDocument(format, 'pai.weekly-synthesis', toRecord(result, markdown, null));
+    } else {
+      console.log(`${colors.yellow}DRY RUN - Preview:${colors.reset}\n`);
+      console.log(markdown);
+    }
     process.exit(0);
   }
 
@@ -444,12 +525,16 @@ async function main() {
   const filepath = join(synthesisMonthDir, filename);
 
   writeFileSync(filepath, markdown, 'utf-8');
-  console.log(`${colors.green}✓ Created synthesis: ${filepath}${colors.reset}`);
+  log(`${colors.green}✓ Created synthesis: ${filepath}${colors.reset}`);
 
   // Update memory index
   updateMemoryIndex(result, filepath);
 
-  console.log(`\n${colors.bold}${colors.green}Weekly synthesis complete!${colors.reset}`);
+  if (format !== 'text') {
+    writeDocument(format, 'pai.weekly-synthesis', toRecord(result, markdown, filepath));
+  }
+
+  log(`\n${colors.bold}${colors.green}Weekly synthesis complete!${colors.reset}`);
 }
 
 main().catch((error) => {
@@ -38,7 +38,7 @@ export interface MemorySearchResult {
   context: string;
   relevance: number;
   timestamp: string;
-  type: 'ALGORITHM' | 'SYSTEM' | 'WORK';
+  type: string;          // Source label from memory-sources.json, e.g. 'ALGORITHM'
 }
 
 // Context loaded at session start
@@ -47,8 +47,130 @@ export interface SessionContext {
     summary: string;
     workDone: string[];
     carryForward: string[];
+    journalLocked?: boolean;  // Journal is in a sensitive source and the key is not unlocked
   };
   activeProjects: string[];
   openItems: OpenItem[];
   recentLearnings: string[];
+  pinnedMemories: string[];   // "topic: excerpt" of memories pinned with MemoryDatabase.ts pin
+}
+
+// A directory of markdown files indexed by MemoryDatabase and searched by
+// MemorySearch. Defined in tools/memory-sources.json.
+export interface MemorySource {
+  name: string;          // Unique source name, e.g. "algorithm"
+  label: string;         // Category shown in search results, e.g. "ALGORITHM"
+  root: string;          // Directory; supports ~/ and $PAI_HOME
+  glob: string;          // Files to include, relative to root
+  idPrefix: string;      // Prefix for memory ids, e.g. "algo_"
+  type: 'learning' | 'session' | 'synthesis' | 'work';
+  topic: string;         // Fallback topic; {name} is the file's base name
+  importance: number;    // Default importance (1-5)
+  stability: number;     // Default stability (1-5)
+  recencyDays?: number;      // Optional: only index files modified in the last N days
+  idFromDirectory?: string;  // Optional: file name indexed under its directory's id (summary.md -> work_<session>)
+  sensitive?: boolean;       // Optional: encrypt indexed content (MemoryCrypto.ts)
+}
+
+// Turns text into a fixed-size vector for semantic search. Implementations
+// must run offline; see MemoryEmbeddings.ts for the built-in embedder.
+export interface Embedder {
+  name: string;          // Stored with each vector; changing it re-embeds
+  dimensions: number;
+  embed(text: string): Float32Array;  // L2-normalized
+}
+
+// A learning capture parsed by LearningParser.ts. YAML front-matter wins over
+// the markdown conventions shown in examples/learning-sample.md.
+export interface LearningDocument {
+  title: string | null;  // front-matter title, else first "# " heading
+  date: string | null;   // YYYY-MM-DD: front-matter, **Date:**, else file name
+  category: string | null;   // front-matter category or **Category:**
+  rating: number | null;     // 1-10: front-matter rating or **Rating:** 8/10
+  tags: string[];        // Without the leading #
+  frontMatter: Record<string, unknown>;  // Raw front-matter fields
+  body: string;          // Content after the front-matter
+  warnings: string[];    // Problems found while parsing
+}
+
+// Activity since the last full context load (SessionContextLoader delta)
+export interface SessionDelta {
+  since: string;         // ISO timestamp of the last full load
+  hoursSinceLoad: number;
+  recentSessions: string[];  // "[HH:MM] summary" from learning captures
+  newLearnings: string[];
+  openItems: OpenItem[];     // First three open items
+}
+
+// A matched section of a memory, with lines counted in the source file
+export interface SectionMatch {
+  heading: string;       // Heading path, "" for text before the first heading
+  startLine: number;
+  endLine: number;
+  snippet: string;
+}
+
+// A MemoryDatabase search hit in --json/--ndjson output (pai.memory-search).
+// context is the best section snippet, else the start of the memory.
+export interface MemorySearchRecord extends MemorySearchResult {
+  id: string;
+  topic: string;
+  rating: number | null;
+  tags: string[];        // Without the leading #
+  importance: number;
+  stability: number;
+  strength: number | null;   // Current strength, 0-1
+  archived: boolean;
+  sections: SectionMatch[];
+  profile: string;       // Profile the memory belongs to (see MemoryPaths.ts)
+}
+
+// A matched line with its surrounding lines
+export interface LineMatch {
+  line: number;          // 1-based
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+// A MemorySearch hit in --json/--ndjson output (pai.file-search).
+// context is the first matching line; relevance is the ranking score.
+export interface FileSearchRecord extends MemorySearchResult {
+  archived: boolean;
+  matchCount: number;    // Matches of the included terms
+  expansions: TermExpansion[]; // --fuzzy matches other than the query terms
+  matches: LineMatch[];
+  explain?: ScoreExplanation; // With --explain
+}
+
+// Factors of a MemorySearch score: relevance = bm25 × recency × rating × type
+// (see MemoryRanking.ts)
+export interface ScoreExplanation {
+  bm25: number;
+  recency: number;       // 1 + weight × 0.5^(ageDays / halfLifeDays)
+  ageDays: number | null; // null if the document has no date
+  rating: number;        // From the 1-10 rating; 1 if unrated
+  type: number;          // typeWeights entry for the source label
+  length: number;        // Characters in the document
+  averageLength: number; // Over the searched documents
+  documents: number;     // Documents searched
+  terms: TermScore[];
+}
+
+// One query term's share of the BM25 score
+export interface TermScore {
+  term: string;
+  frequency: number;     // Matches in the document
+  title: number;         // Matches in the title
+  headings: number;      // Matches in other headings
+  documentFrequency: number; // Searched documents containing the term
+  idf: number;
+  score: number;
+}
+
+// A query term matching another word form, a typo or a synonym (--fuzzy)
+export interface TermExpansion {
+  term: string;          // As written in the query
+  match: string;         // Word or name found in the document
+  kind: "stem" | "typo" | "synonym";
 }